@@ -7,3 +7,9 @@ export const dbName = "sqlite.db";
 export const getDrizzle = (db: Database) => {
   return drizzle(db, { schema });
 };
+
+// What `drizzle.transaction` hands its callback. With bun:sqlite the callback
+// runs synchronously, so queries inside it use `.run()`, `.get()` and `.all()`.
+export type Transaction = Parameters<
+  Parameters<ReturnType<typeof getDrizzle>["transaction"]>[0]
+>[0];
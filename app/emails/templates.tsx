@@ -0,0 +1,219 @@
+import type { ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+
+import type { EmailMessage, SignInDetails } from "../lib/types";
+
+export type RenderedEmail = Omit<EmailMessage, "to">;
+
+const APP_NAME = "Remix Bun";
+
+// Mail clients ignore stylesheets, so everything is inline
+const bodyStyle = {
+  fontFamily: "system-ui, sans-serif",
+  lineHeight: "1.6",
+  color: "#111827",
+};
+const codeStyle = {
+  fontFamily: "ui-monospace, monospace",
+  fontSize: "24px",
+  letterSpacing: "4px",
+};
+const footerStyle = { color: "#6b7280", fontSize: "12px" };
+
+function Layout({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <title>{title}</title>
+      </head>
+      <body style={bodyStyle}>
+        <h1>{title}</h1>
+        {children}
+        <p style={footerStyle}>
+          You're receiving this because of activity on your {APP_NAME} account.
+        </p>
+      </body>
+    </html>
+  );
+}
+
+function EmailLink({ href, children }: { href: string; children: string }) {
+  return (
+    <p>
+      <a href={href}>{children}</a>
+      <br />
+      Or paste this link into your browser: {href}
+    </p>
+  );
+}
+
+// The plain-text part is written separately rather than derived from the
+// HTML, so it reads well on its own
+function render(
+  subject: string,
+  body: ReactNode,
+  text: string[]
+): RenderedEmail {
+  const html = renderToStaticMarkup(<Layout title={subject}>{body}</Layout>);
+
+  return {
+    subject,
+    html: `<!DOCTYPE html>${html}`,
+    text: [...text, "", `-- ${APP_NAME}`].join("\n"),
+  };
+}
+
+export function confirmEmail({ code }: { code: string }): RenderedEmail {
+  return render(
+    "Confirm your email",
+    <>
+      <p>Enter this code to confirm your email address:</p>
+      <p style={codeStyle}>{code}</p>
+      <p>It expires in 15 minutes.</p>
+    </>,
+    [
+      "Enter this code to confirm your email address:",
+      "",
+      code,
+      "",
+      "It expires in 15 minutes.",
+    ]
+  );
+}
+
+export function resetPassword({ link }: { link: string }): RenderedEmail {
+  return render(
+    "Reset your password",
+    <>
+      <p>Follow this link to choose a new password:</p>
+      <EmailLink href={link}>Reset password</EmailLink>
+      <p>If you didn't ask for this, you can ignore this email.</p>
+    </>,
+    [
+      "Follow this link to choose a new password:",
+      "",
+      link,
+      "",
+      "If you didn't ask for this, you can ignore this email.",
+    ]
+  );
+}
+
+export function magicLink({ link }: { link: string }): RenderedEmail {
+  return render(
+    `Log in to ${APP_NAME}`,
+    <>
+      <p>Follow this link to log in. It expires in 15 minutes.</p>
+      <EmailLink href={link}>Log in</EmailLink>
+      <p>If you didn't ask for this, you can ignore this email.</p>
+    </>,
+    [
+      "Follow this link to log in. It expires in 15 minutes.",
+      "",
+      link,
+      "",
+      "If you didn't ask for this, you can ignore this email.",
+    ]
+  );
+}
+
+export function alreadyRegistered(): RenderedEmail {
+  return render(
+    "You already have an account",
+    <>
+      <p>
+        Someone tried to sign up with this email address, but it already has an
+        account. If it was you, log in instead, or reset your password if you
+        forgot it.
+      </p>
+      <p>If it wasn't you, you can ignore this email.</p>
+    </>,
+    [
+      "Someone tried to sign up with this email address, but it already has",
+      "an account. If it was you, log in instead, or reset your password if",
+      "you forgot it.",
+      "",
+      "If it wasn't you, you can ignore this email.",
+    ]
+  );
+}
+
+export function emailChanged({
+  newEmail,
+}: {
+  newEmail: string;
+}): RenderedEmail {
+  return render(
+    "Your email was changed",
+    <>
+      <p>
+        The email address on your account was changed to{" "}
+        <strong>{newEmail}</strong>. Future emails will go to that address.
+      </p>
+      <p>If you didn't make this change, contact us right away.</p>
+    </>,
+    [
+      `The email address on your account was changed to ${newEmail}.`,
+      "Future emails will go to that address.",
+      "",
+      "If you didn't make this change, contact us right away.",
+    ]
+  );
+}
+
+export function passwordChanged(): RenderedEmail {
+  return render(
+    "Your password was changed",
+    <>
+      <p>The password for your account was just changed.</p>
+      <p>
+        If you didn't make this change, reset your password right away and
+        contact us.
+      </p>
+    </>,
+    [
+      "The password for your account was just changed.",
+      "",
+      "If you didn't make this change, reset your password right away and",
+      "contact us.",
+    ]
+  );
+}
+
+export function newSignIn({
+  ipAddress,
+  userAgent,
+  signedInAt,
+}: SignInDetails): RenderedEmail {
+  // UTC, since the server doesn't know the recipient's time zone
+  const details = [
+    `Time: ${signedInAt.toUTCString()}`,
+    `IP address: ${ipAddress ?? "Unknown"}`,
+    `Device: ${userAgent ?? "Unknown"}`,
+  ];
+
+  return render(
+    "New sign-in to your account",
+    <>
+      <p>Your account was just logged into from a new device or location:</p>
+      <ul>
+        {details.map((detail) => (
+          <li key={detail}>{detail}</li>
+        ))}
+      </ul>
+      <p>
+        If this was you, you can ignore this email. If not, reset your password
+        right away.
+      </p>
+    </>,
+    [
+      "Your account was just logged into from a new device or location:",
+      "",
+      ...details,
+      "",
+      "If this was you, you can ignore this email. If not, reset your password",
+      "right away.",
+    ]
+  );
+}
@@ -0,0 +1,44 @@
+import type { WeakPassword, WeakPasswordReason } from "./types";
+
+export function getFormString(formData: FormData, name: string): string {
+  const value = formData.get(name);
+  return typeof value === "string" ? value : "";
+}
+
+// e.g. "30 seconds" or "2 minutes"
+function timeUntil(retryAfter: Date): string {
+  const seconds = Math.max(
+    1,
+    Math.ceil((retryAfter.getTime() - Date.now()) / 1000)
+  );
+
+  return seconds < 60
+    ? `${seconds} second${seconds === 1 ? "" : "s"}`
+    : `${Math.ceil(seconds / 60)} minute${seconds <= 60 ? "" : "s"}`;
+}
+
+export function tooManyAttemptsMessage(retryAfter: Date): string {
+  return `Too many attempts, try again in ${timeUntil(retryAfter)}`;
+}
+
+export function resendCooldownMessage(retryAfter: Date): string {
+  return `A code was just sent, you can request another in ${timeUntil(
+    retryAfter
+  )}`;
+}
+
+export function weakPasswordMessage({
+  reasons,
+  minLength,
+  maxLength,
+}: WeakPassword): string {
+  const messages: Record<WeakPasswordReason, string> = {
+    too_short: `Use at least ${minLength} characters`,
+    too_long: `Use at most ${maxLength} characters`,
+    contains_email: "Don't use your email address in your password",
+    breached:
+      "This password has appeared in a data breach, please choose another one",
+  };
+
+  return reasons.map((reason) => messages[reason]).join(". ");
+}
@@ -0,0 +1,11 @@
+import type { Permission, Role } from "./types";
+
+// What each role grants. Routes check permissions, never role names, so a
+// role can change without touching them.
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  admin: ["users:read", "users:manage", "audit:read"],
+};
+
+export function rolesGrant(roles: readonly Role[], permission: Permission) {
+  return roles.some((role) => rolePermissions[role]?.includes(permission));
+}
@@ -0,0 +1,147 @@
+import {
+  type AppLoadContext,
+  type LoaderFunctionArgs,
+  createCookie,
+  redirect,
+} from "@remix-run/node";
+
+import type { AuthService } from "../services/auth-service";
+import type { Permission, SessionClient, User } from "./types";
+
+type SessionArgs = {
+  request: Request;
+  context: AppLoadContext;
+  // Loader/action response stub, used to send the refreshed session cookie
+  response?: LoaderFunctionArgs["response"];
+};
+
+type RequireUserOptions = {
+  requireVerified?: boolean;
+};
+
+// Holds the pending-login token between the password and the 2FA code steps
+export const pendingTwoFactorCookie = createCookie("two_factor_pending", {
+  httpOnly: true,
+  secure: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 10 * 60,
+});
+
+// Holds the OAuth state and PKCE verifier while the user is at the provider
+export const oauthStateCookie = createCookie("oauth_state", {
+  httpOnly: true,
+  secure: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 10 * 60,
+});
+
+export function getSessionId(auth: AuthService, request: Request) {
+  return auth.lucia.readSessionCookie(request.headers.get("Cookie") ?? "");
+}
+
+export function createSessionCookie(auth: AuthService, sessionId: string) {
+  return auth.lucia.createSessionCookie(sessionId).serialize();
+}
+
+export function createBlankSessionCookie(auth: AuthService) {
+  return auth.lucia.createBlankSessionCookie().serialize();
+}
+
+// The device behind the request, recorded with sessions and auth events
+export function getSessionClient({
+  request,
+  context,
+}: Pick<SessionArgs, "request" | "context">): SessionClient {
+  return {
+    userAgent: request.headers.get("User-Agent"),
+    ipAddress: context.clientAddress,
+  };
+}
+
+export async function getOptionalUser({
+  request,
+  context,
+  response,
+}: SessionArgs): Promise<User | null> {
+  const sessionId = getSessionId(context.auth, request);
+  if (sessionId == null) {
+    return null;
+  }
+
+  const result = await context.auth.validateSession(
+    sessionId,
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    response?.headers.append(
+      "Set-Cookie",
+      createBlankSessionCookie(context.auth)
+    );
+    return null;
+  }
+
+  const { user, freshSessionId } = result.data;
+  if (freshSessionId) {
+    response?.headers.append(
+      "Set-Cookie",
+      createSessionCookie(context.auth, freshSessionId)
+    );
+  }
+
+  return user;
+}
+
+export async function requireUser(
+  args: SessionArgs,
+  { requireVerified = false }: RequireUserOptions = {}
+): Promise<User> {
+  const user = await getOptionalUser(args);
+
+  if (user == null) {
+    const { pathname, search } = new URL(args.request.url);
+    const searchParams = new URLSearchParams({
+      redirectTo: `${pathname}${search}`,
+    });
+    throw redirect(`/login?${searchParams}`);
+  }
+
+  if (requireVerified && !user.emailVerified) {
+    throw redirect("/verify-email");
+  }
+
+  return user;
+}
+
+// Like `requireUser`, then answers 403 unless one of the user's roles grants
+// `permission`. The email has to be verified, or anyone could sign up with the
+// ADMIN_EMAIL address and act before its owner does.
+export async function requirePermission(
+  args: SessionArgs,
+  permission: Permission
+): Promise<User> {
+  const user = await requireUser(args, { requireVerified: true });
+
+  if (!args.context.auth.hasPermission(user, permission)) {
+    throw new Response("Forbidden", { status: 403 });
+  }
+
+  return user;
+}
+
+// Only allow relative paths so `redirectTo` can't send users to another site.
+// Browsers read a backslash as a slash and drop tabs and newlines, so `/\x`
+// and `/\t/x` are protocol-relative just like `//x`.
+export function safeRedirect(to: string | null, fallback = "/"): string {
+  if (
+    !to ||
+    !to.startsWith("/") ||
+    to.startsWith("//") ||
+    /[\\\t\r\n]/.test(to)
+  ) {
+    return fallback;
+  }
+
+  return to;
+}
@@ -1,60 +1,519 @@
-import type { User as UserDB } from "../../db/schema";
+import type { AuthEvent, User as UserDB } from "../../db/schema";
 
-export type Result<T, E = never> =
+// `D` maps some of the error codes to extra details carried by the failure,
+// e.g. `{ too_many_attempts: { retryAfter: Date } }`.
+export type Result<T, E = never, D extends FailureDetails<E> = NoDetails> =
   | {
       type: "success";
       data: T;
     }
-  | {
+  | Failure<E, D>;
+
+export type AsyncResult<
+  T,
+  E = never,
+  D extends FailureDetails<E> = NoDetails,
+> = Promise<Result<T, E, D>>;
+
+type FailureDetails<E> = Partial<Record<E & string, unknown>>;
+type NoDetails = Record<never, never>;
+
+type Failure<E, D> = E extends unknown
+  ? {
       type: "failure";
       error: E;
-    };
+    } & (E extends keyof D ? { details: D[E] } : NoDetails)
+  : never;
+
+export type ResultError<R> = Awaited<R> extends infer A
+  ? A extends { type: "failure"; error: infer E }
+    ? E
+    : never
+  : never;
+
+export type RetryAfter = { retryAfter: Date };
+
+export type WeakPasswordReason =
+  | "too_short"
+  | "too_long"
+  | "contains_email"
+  | "breached";
+
+// The limits are included so forms can explain them
+export type WeakPassword = {
+  reasons: WeakPasswordReason[];
+  minLength: number;
+  maxLength: number;
+};
+
+// Role names match rows in the `role` table, see app/lib/permissions.ts for
+// what each one grants
+export type Role = "admin";
+
+export type Permission = "users:read" | "users:manage" | "audit:read";
+
+export type User = Pick<
+  UserDB,
+  "id" | "email" | "emailVerified" | "disabledAt" | "deletedAt"
+> & {
+  roles: Role[];
+};
+
+// An account as listed in the admin console
+export type ManagedUser = Pick<
+  UserDB,
+  "id" | "email" | "emailVerified" | "createdAt" | "disabledAt" | "deletedAt"
+> & {
+  roles: Role[];
+};
+
+export type UserListQuery = {
+  // Part of the email, case-insensitive
+  search?: string;
+  verified?: boolean;
+  sort?: "newest" | "oldest";
+  // Starts at 1
+  page?: number;
+  pageSize?: number;
+};
+
+export type UserList = {
+  users: ManagedUser[];
+  total: number;
+  page: number;
+  pageCount: number;
+};
+
+// The device behind a request, as far as the server can tell
+export type SessionClient = {
+  userAgent: string | null;
+  ipAddress: string | null;
+};
+
+// What a new sign-in notice tells the owner about the login
+export type SignInDetails = SessionClient & {
+  signedInAt: Date;
+};
+
+export type ActiveSession = SessionClient & {
+  // A hash of the session id: pages never get to see usable session tokens
+  id: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+};
 
-export type AsyncResult<T, E = never> = Promise<Result<T, E>>;
+export type AuthEventType = AuthEvent["type"];
 
-export type User = Pick<UserDB, "id" | "email" | "emailVerified">;
+export type { AuthEvent };
+
+export type AuthEventQuery = {
+  userId?: string;
+  types?: AuthEventType[];
+  limit?: number;
+  offset?: number;
+};
+
+// Binary WebAuthn fields are base64url encoded so they can be posted as JSON
+
+export type PasskeyRegistrationResponse = {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  // SPKI public key from `AuthenticatorAttestationResponse.getPublicKey()`
+  publicKey: string;
+  // COSE algorithm identifier, only -7 (ES256) is supported
+  algorithm: number;
+};
+
+export type PasskeyAuthenticationResponse = {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+};
 
 // Interfaces
 
+// Signup, login, password reset and magic links answer the same way whether
+// or not an account exists for the email, so they can't be used to find out
+// who is registered.
+//
+// Methods that take a `client` record it with the auth events they log.
 export interface AuthServiceInterface {
-  signup: (_: {
-    email: string;
-    password: string;
-  }) => AsyncResult<{ sessionId: string }, "user_exists">;
-
-  login: (_: {
-    email: string;
-    password: string;
-  }) => AsyncResult<
+  // No session is created: the owner of an existing account would otherwise
+  // be told apart from a new user. Either way an email goes out, a
+  // confirmation code for new accounts and a notice for existing ones.
+  signup: (
+    _: {
+      email: string;
+      password: string;
+    },
+    client?: SessionClient
+  ) => AsyncResult<
+    null,
+    "weak_password" | "validation_error",
+    {
+      weak_password: WeakPassword;
+      validation_error: FieldErrors<"email" | "password">;
+    }
+  >;
+
+  // The client's IP address, if known, is rate limited too
+  login: (
+    _: {
+      email: string;
+      password: string;
+    },
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_credentials"
+    | "account_disabled"
+    | "too_many_attempts"
+    | "two_factor_required"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      two_factor_required: { pendingLoginToken: string };
+      validation_error: FieldErrors<"email" | "password">;
+    }
+  >;
+
+  verifyTwoFactorLogin: (
+    pendingLoginToken: string,
+    code: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_token"
+    | "expired_token"
+    | "invalid_code"
+    | "account_disabled"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"pendingLoginToken" | "code">;
+    }
+  >;
+
+  getTwoFactorStatus: (user: User) => AsyncResult<{ enabled: boolean }>;
+
+  createPasskeyRegistrationChallenge: (
+    user: User
+  ) => AsyncResult<{ challenge: string; excludeCredentialIds: string[] }>;
+
+  verifyPasskeyRegistration: (
+    user: User,
+    origin: string,
+    response: PasskeyRegistrationResponse,
+    client?: SessionClient
+  ) => AsyncResult<
+    null,
+    | "invalid_challenge"
+    | "expired_challenge"
+    | "invalid_response"
+    | "unsupported_algorithm"
+    | "credential_exists"
+  >;
+
+  createPasskeyLoginChallenge: () => AsyncResult<{ challenge: string }>;
+
+  loginWithPasskey: (
+    origin: string,
+    response: PasskeyAuthenticationResponse,
+    client?: SessionClient
+  ) => AsyncResult<
     { sessionId: string },
-    "invalid_credentials" | "user_not_found"
+    | "invalid_challenge"
+    | "expired_challenge"
+    | "unknown_credential"
+    | "invalid_response"
+    | "user_verification_required"
+    | "counter_regression"
+    | "account_disabled"
+  >;
+
+  beginTwoFactorEnrollment: (
+    user: User
+  ) => AsyncResult<{ secret: string; uri: string }, "already_enabled">;
+
+  confirmTwoFactorEnrollment: (
+    user: User,
+    code: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { recoveryCodes: string[] },
+    "invalid_code" | "not_enrolling" | "validation_error",
+    { validation_error: FieldErrors<"code"> }
+  >;
+
+  loginWithOAuth: (
+    _: {
+      providerId: string;
+      profile: OAuthProfile;
+    },
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "email_missing"
+    | "email_not_verified"
+    | "account_disabled"
+    | "two_factor_required",
+    { two_factor_required: { pendingLoginToken: string } }
+  >;
+
+  logout: (sessionId: string, client?: SessionClient) => AsyncResult<null>;
+
+  requestMagicLink: (
+    domain: string,
+    email: string
+  ) => AsyncResult<
+    null,
+    "too_many_attempts" | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"email">;
+    }
   >;
 
-  logout: (sessionId: string) => AsyncResult<null>;
+  consumeMagicLink: (
+    token: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_token"
+    | "expired_token"
+    | "account_disabled"
+    | "two_factor_required"
+    | "validation_error",
+    {
+      two_factor_required: { pendingLoginToken: string };
+      validation_error: FieldErrors<"token">;
+    }
+  >;
 
   createEmailVerificationCode(
     userId: string,
     email: string
-  ): AsyncResult<null, "email_send_error">;
+  ): AsyncResult<null, "resend_cooldown", { resend_cooldown: RetryAfter }>;
 
+  // `client` is recorded on the session so it can be listed later
   validateSession: (
-    sessionId: string
-  ) => AsyncResult<{ user: User; freshSessionId?: string }, "invalid_session">;
+    sessionId: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { user: User; freshSessionId?: string },
+    "invalid_session" | "account_disabled"
+  >;
+
+  listSessions: (
+    user: User,
+    currentSessionId?: string
+  ) => AsyncResult<ActiveSession[]>;
+
+  // `sessionId` is the `id` returned by `listSessions`
+  revokeSession: (
+    user: User,
+    sessionId: string,
+    client?: SessionClient
+  ) => AsyncResult<null, "session_not_found">;
+
+  revokeOtherSessions: (
+    user: User,
+    currentSessionId: string,
+    client?: SessionClient
+  ) => AsyncResult<null>;
 
   verifyEmailCode: (
     user: User,
-    code: string
-  ) => AsyncResult<{ sessionId: string }, "invalid_code" | "expired_code">;
+    code: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_code"
+    | "expired_code"
+    | "attempts_exhausted"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"code">;
+    }
+  >;
+
+  requestEmailChange: (
+    user: User,
+    newEmail: string,
+    currentPassword: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    null,
+    | "invalid_credentials"
+    | "email_taken"
+    | "resend_cooldown"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      resend_cooldown: RetryAfter;
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"newEmail" | "currentPassword">;
+    }
+  >;
+
+  confirmEmailChange: (
+    user: User,
+    code: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_code"
+    | "expired_code"
+    | "attempts_exhausted"
+    | "email_taken"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"code">;
+    }
+  >;
+
+  // Sessions are rotated: every session is invalidated and the caller gets a
+  // new one to replace the current cookie with
+  changePassword: (
+    user: User,
+    currentPassword: string,
+    newPassword: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_credentials"
+    | "too_many_attempts"
+    | "weak_password"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      weak_password: WeakPassword;
+      validation_error: FieldErrors<"currentPassword" | "newPassword">;
+    }
+  >;
+
+  // Needs the password. The account is disabled right away and purged once
+  // the grace period is over.
+  deleteAccount: (
+    user: User,
+    password: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { purgeAt: Date },
+    "invalid_credentials" | "too_many_attempts" | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"password">;
+    }
+  >;
 
   resetPasswordRequest: (
     domain: string,
-    email: string
-  ) => AsyncResult<{ tokenId: string }, "email_not_found" | "email_send_error">;
+    email: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    null,
+    "too_many_attempts" | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"email">;
+    }
+  >;
 
   resetPassword: (
     newPassword: string,
+    token: string,
+    client?: SessionClient
+  ) => AsyncResult<
+    { sessionId: string },
+    | "invalid_code"
+    | "code_expired"
+    | "account_disabled"
+    | "weak_password"
+    | "validation_error",
+    {
+      weak_password: WeakPassword;
+      validation_error: FieldErrors<"newPassword" | "token">;
+    }
+  >;
+
+  // Checks a reset link without using it up
+  validateResetToken: (
     token: string
-  ) => AsyncResult<{ sessionId: string }, "invalid_code" | "code_expired">;
+  ) => AsyncResult<null, "invalid_code" | "code_expired" | "account_disabled">;
+
+  // Signups, logins, resets and revoked sessions, newest first
+  listAuthEvents: (query: AuthEventQuery) => Promise<AuthEvent[]>;
+
+  hasPermission: (user: User, permission: Permission) => boolean;
+
+  // Admin console. These act on any account, routes check the permission.
+
+  listUsers: (query: UserListQuery) => AsyncResult<UserList>;
+
+  getManagedUser: (
+    userId: string
+  ) => AsyncResult<ManagedUser, "user_not_found">;
+
+  // Marks the email verified without a code
+  forceVerifyEmail: (
+    userId: string,
+    client?: SessionClient
+  ) => AsyncResult<null, "user_not_found">;
+
+  revokeAllSessions: (
+    userId: string,
+    client?: SessionClient
+  ) => AsyncResult<null>;
+
+  // Disabling also ends every session of the account. Enabling also cancels
+  // a deletion the owner asked for, if it hasn't been purged yet.
+  setUserDisabled: (
+    userId: string,
+    disabled: boolean,
+    client?: SessionClient
+  ) => AsyncResult<null, "user_not_found">;
+
+  // Sessions, codes, passkeys and the rest go with it through the cascades
+  deleteUser: (
+    userId: string,
+    client?: SessionClient
+  ) => AsyncResult<null, "user_not_found">;
+
+  grantRole: (userId: string, role: Role) => Promise<void>;
+}
+
+export type OAuthProfile = {
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+};
+
+export interface OAuthProviderInterface {
+  readonly id: string;
+  readonly name: string;
+
+  createAuthorizationURL: (state: string, codeVerifier: string) => Promise<URL>;
+
+  // Exchanges the authorization code and fetches the user's profile. Throws
+  // if the provider rejects the code or can't be reached.
+  getProfile: (code: string, codeVerifier: string) => Promise<OAuthProfile>;
+}
+
+// k-anonymity lookup in the style of the Pwned Passwords range API: only the
+// first 5 hex characters of a password's SHA-1 are ever handed over
+export interface BreachedPasswordSourceInterface {
+  // Maps the remaining 35 uppercase hex characters of every breached hash
+  // with that prefix to the number of times it was seen
+  getRange: (prefix: string) => Promise<Map<string, number>>;
 }
 
 export interface EmailServiceInterface {
@@ -67,4 +526,62 @@ export interface EmailServiceInterface {
     email: string,
     verificationLink: string
   ) => AsyncResult<null, "email_send_error">;
+
+  sendMagicLinkEmail: (
+    email: string,
+    magicLink: string
+  ) => AsyncResult<null, "email_send_error">;
+
+  // Sent instead of a confirmation code when someone signs up with an email
+  // that already has an account
+  sendAlreadyRegisteredEmail: (
+    email: string
+  ) => AsyncResult<null, "email_send_error">;
+
+  // Sent to the old address once the new one is confirmed
+  sendEmailChangedEmail: (
+    email: string,
+    newEmail: string
+  ) => AsyncResult<null, "email_send_error">;
+
+  // Sent after a password change or reset, in case it wasn't the owner
+  sendPasswordChangedEmail: (
+    email: string
+  ) => AsyncResult<null, "email_send_error">;
+
+  // Sent when an account logs in from a device or IP it hasn't used before
+  sendNewSignInEmail: (
+    email: string,
+    signIn: SignInDetails
+  ) => AsyncResult<null, "email_send_error">;
 }
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+// Delivers a rendered message, rejecting if it couldn't be handed over
+export interface EmailTransportInterface {
+  send: (from: string, message: EmailMessage) => Promise<void>;
+}
+
+// Where AuthService records what happens to accounts
+export interface AuthEventLoggerInterface {
+  // Never rejects, a lost event mustn't fail the operation it describes
+  log: (event: {
+    type: AuthEventType;
+    userId: string | null;
+    client?: SessionClient;
+    detail?: string;
+  }) => Promise<void>;
+
+  // Newest first
+  list: (query: AuthEventQuery) => Promise<AuthEvent[]>;
+}
+
+// Forms
+
+export type FieldErrors<F extends string> = Partial<Record<F | "form", string>>;
@@ -0,0 +1,104 @@
+import type { FieldErrors, Result } from "./types";
+
+// Normalises a raw input, or fails with a message that can be shown next to
+// the form field as is
+export type FieldSchema = (value: string) => Result<string, string>;
+
+export function validate<F extends string>(
+  schema: Record<F, FieldSchema>,
+  input: Record<F, string>
+): Result<
+  Record<F, string>,
+  "validation_error",
+  { validation_error: FieldErrors<F> }
+> {
+  const values = {} as Record<F, string>;
+  const errors: FieldErrors<F> = {};
+
+  for (const field of Object.keys(schema) as F[]) {
+    const result = schema[field](input[field]);
+    if (result.type === "failure") {
+      errors[field] = result.error;
+    } else {
+      values[field] = result.data;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { type: "failure", error: "validation_error", details: errors };
+  }
+
+  return { type: "success", data: values };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Deliberately loose: the confirmation email is the real check
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Longest address SMTP allows
+const EMAIL_MAX_LENGTH = 254;
+
+export const emailField: FieldSchema = (value) => {
+  const email = normalizeEmail(value);
+  if (!email) {
+    return { type: "failure", error: "Email is required" };
+  }
+
+  if (email.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(email)) {
+    return { type: "failure", error: "Enter a valid email address" };
+  }
+
+  return { type: "success", data: email };
+};
+
+// Passwords are taken as typed, strength is up to the password policy
+export function requiredField(label: string): FieldSchema {
+  return (value) =>
+    value
+      ? { type: "success", data: value }
+      : { type: "failure", error: `${label} is required` };
+}
+
+export function digitsField(label: string, length: number): FieldSchema {
+  const pattern = new RegExp(`^\\d{${length}}$`);
+
+  return (value) => {
+    const code = value.replace(/\s/g, "");
+    if (!code) {
+      return { type: "failure", error: `${label} is required` };
+    }
+
+    if (!pattern.test(code)) {
+      return { type: "failure", error: `${label} must be ${length} digits` };
+    }
+
+    return { type: "success", data: code };
+  };
+}
+
+// A 6 digit TOTP code or a 10 character recovery code
+export const twoFactorCodeField: FieldSchema = (value) => {
+  const code = value.replace(/\s/g, "").toLowerCase();
+  if (!code) {
+    return { type: "failure", error: "Code is required" };
+  }
+
+  if (!/^\d{6}$/.test(code) && !/^[a-z0-9]{10}$/.test(code)) {
+    return {
+      type: "failure",
+      error: "Enter the 6 digit code or a recovery code",
+    };
+  }
+
+  return { type: "success", data: code };
+};
+
+// Tokens from `generateIdFromEntropySize(25)`: 40 lowercase base32 characters
+export function tokenField(message: string): FieldSchema {
+  return (value) =>
+    /^[a-z2-7]{40}$/.test(value)
+      ? { type: "success", data: value }
+      : { type: "failure", error: message };
+}
@@ -0,0 +1,160 @@
+import { base64url } from "oslo/encoding";
+
+import type {
+  PasskeyAuthenticationResponse,
+  PasskeyRegistrationResponse,
+} from "./types";
+
+// Browser side of the passkey ceremonies: wraps `navigator.credentials` and
+// turns its binary output into the JSON the auth service expects
+
+export async function createPasskey({
+  challenge,
+  userId,
+  userName,
+  excludeCredentialIds,
+}: {
+  challenge: string;
+  userId: string;
+  userName: string;
+  excludeCredentialIds: string[];
+}): Promise<PasskeyRegistrationResponse> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: decode(challenge),
+      rp: { name: document.title || location.hostname },
+      user: {
+        id: new TextEncoder().encode(userId),
+        name: userName,
+        displayName: userName,
+      },
+      pubKeyCredParams: [{ type: "public-key", alg: -7 }],
+      excludeCredentials: excludeCredentialIds.map((id) => ({
+        type: "public-key",
+        id: decode(id),
+      })),
+      authenticatorSelection: {
+        residentKey: "required",
+        userVerification: "required",
+      },
+    },
+  });
+
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new Error("No credential was created");
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey();
+  if (publicKey == null) {
+    throw new Error("The authenticator didn't return a public key");
+  }
+
+  return {
+    credentialId: encode(credential.rawId),
+    clientDataJSON: encode(response.clientDataJSON),
+    authenticatorData: encode(response.getAuthenticatorData()),
+    publicKey: encode(publicKey),
+    algorithm: response.getPublicKeyAlgorithm(),
+  };
+}
+
+export async function getPasskey(
+  challenge: string
+): Promise<PasskeyAuthenticationResponse> {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      challenge: decode(challenge),
+      userVerification: "required",
+    },
+  });
+
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new Error("No credential was selected");
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    credentialId: encode(credential.rawId),
+    clientDataJSON: encode(response.clientDataJSON),
+    authenticatorData: encode(response.authenticatorData),
+    signature: encode(response.signature),
+  };
+}
+
+function encode(buffer: ArrayBuffer): string {
+  return base64url.encode(new Uint8Array(buffer), { includePadding: false });
+}
+
+function decode(value: string): Uint8Array {
+  return base64url.decode(value, { strict: false });
+}
+
+// Server side: the responses come back as a JSON form field
+
+export function parsePasskeyRegistrationResponse(
+  value: string
+): PasskeyRegistrationResponse | null {
+  const response = parseJsonObject(value);
+  if (
+    response == null ||
+    !hasStrings(response, [
+      "credentialId",
+      "clientDataJSON",
+      "authenticatorData",
+      "publicKey",
+    ]) ||
+    typeof response.algorithm !== "number"
+  ) {
+    return null;
+  }
+
+  const { credentialId, clientDataJSON, authenticatorData, publicKey } =
+    response;
+  return {
+    credentialId,
+    clientDataJSON,
+    authenticatorData,
+    publicKey,
+    algorithm: response.algorithm,
+  };
+}
+
+export function parsePasskeyAuthenticationResponse(
+  value: string
+): PasskeyAuthenticationResponse | null {
+  const response = parseJsonObject(value);
+  if (
+    response == null ||
+    !hasStrings(response, [
+      "credentialId",
+      "clientDataJSON",
+      "authenticatorData",
+      "signature",
+    ])
+  ) {
+    return null;
+  }
+
+  const { credentialId, clientDataJSON, authenticatorData, signature } =
+    response;
+  return { credentialId, clientDataJSON, authenticatorData, signature };
+}
+
+function parseJsonObject(value: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return typeof parsed === "object" && parsed != null
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function hasStrings<K extends string>(
+  value: Record<string, unknown>,
+  keys: K[]
+): value is Record<string, unknown> & Record<K, string> {
+  return keys.every((key) => typeof value[key] === "string");
+}
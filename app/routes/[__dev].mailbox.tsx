@@ -0,0 +1,94 @@
+import {
+  type AppLoadContext,
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useLoaderData } from "@remix-run/react";
+
+// Only the Vite dev server has a mailbox
+function requireDevMailbox(context: AppLoadContext) {
+  if (context.devMailbox == null) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return context.devMailbox;
+}
+
+export const loader = defineLoader(async ({ request, context }) => {
+  const mailbox = requireDevMailbox(context);
+  const id = Number(new URL(request.url).searchParams.get("id"));
+
+  const messages = mailbox
+    .list()
+    .map(({ id, to, subject, sentAt, code, link }) => ({
+      id,
+      to,
+      subject,
+      sentAt,
+      code,
+      link,
+    }));
+
+  return { messages, selected: mailbox.find(id) };
+});
+
+export const action = defineAction(async ({ context }) => {
+  requireDevMailbox(context).clear();
+  return redirect("/__dev/mailbox");
+});
+
+export default function DevMailbox() {
+  const { messages, selected } = useLoaderData<typeof loader>();
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Mailbox</h1>
+      <p>
+        Emails sent since the server started. Only available in development.
+      </p>
+      {messages.length === 0 ? (
+        <p>Nothing sent yet.</p>
+      ) : (
+        <Form method="post">
+          <button type="submit">Clear</button>
+        </Form>
+      )}
+      <ul>
+        {messages.map((message) => (
+          <li key={message.id}>
+            <Link to={`?id=${message.id}`}>
+              <strong>{message.subject}</strong>
+            </Link>{" "}
+            to {message.to}, {new Date(message.sentAt).toLocaleString()}
+            {message.code ? (
+              <>
+                <br />
+                Code: <code>{message.code}</code>
+              </>
+            ) : null}
+            {message.link ? (
+              <>
+                <br />
+                Link: <a href={message.link}>{message.link}</a>
+              </>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+      {selected ? (
+        <section>
+          <h2>{selected.subject}</h2>
+          {/* Sandboxed so nothing in the email can run on this page */}
+          <iframe
+            title={selected.subject}
+            srcDoc={selected.html}
+            sandbox=""
+            style={{ width: "100%", height: "400px", border: "1px solid" }}
+          />
+          <pre>{selected.text}</pre>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -1,14 +1,34 @@
 import { unstable_defineLoader as defineLoader } from "@remix-run/node";
+import { Form, Link, useLoaderData } from "@remix-run/react";
 
-export const loader = defineLoader(() => {
-  console.log("loader");
-  return null;
+import { getOptionalUser } from "~/lib/session.server";
+
+export const loader = defineLoader(async (args) => {
+  const user = await getOptionalUser(args);
+  return { user };
 });
 
 export default function Index() {
+  const { user } = useLoaderData<typeof loader>();
+
   return (
     <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
       <h1>Remix + Bun</h1>
+      {user ? (
+        <Form method="post" action="/logout">
+          <p>
+            Logged in as {user.email}{" "}
+            {user.emailVerified ? null : (
+              <Link to="/verify-email">(verify your email)</Link>
+            )}
+          </p>
+          <button type="submit">Log out</button>
+        </Form>
+      ) : (
+        <p>
+          <Link to="/login">Log in</Link> or <Link to="/signup">sign up</Link>
+        </p>
+      )}
       <ul>
         <li>
           <a
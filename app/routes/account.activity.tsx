@@ -0,0 +1,57 @@
+import { unstable_defineLoader as defineLoader } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+
+import { requireUser } from "~/lib/session.server";
+import type { AuthEventType } from "~/lib/types";
+
+const eventLabels: Record<AuthEventType, string> = {
+  signup: "Account created",
+  login_success: "Logged in",
+  login_failure: "Failed login attempt",
+  logout: "Logged out",
+  email_verified: "Email verified",
+  reset_requested: "Password reset requested",
+  reset_completed: "Password reset",
+  session_revoked: "Logged out remotely",
+  password_changed: "Password changed",
+  password_confirmation_failure: "Wrong password entered",
+  email_change_requested: "Email change requested",
+  account_deleted: "Account deleted",
+  account_disabled: "Account disabled",
+  account_enabled: "Account enabled",
+  two_factor_enabled: "Two-factor authentication enabled",
+  passkey_added: "Passkey added",
+};
+
+export const loader = defineLoader(async (args) => {
+  const user = await requireUser(args);
+  const events = await args.context.auth.listAuthEvents({
+    userId: user.id,
+    limit: 30,
+  });
+
+  return { events };
+});
+
+export default function AccountActivity() {
+  const { events } = useLoaderData<typeof loader>();
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Recent security activity</h1>
+      <p>If you don't recognize something here, change your password.</p>
+      {events.length === 0 ? <p>Nothing yet.</p> : null}
+      <ul>
+        {events.map((event) => (
+          <li key={event.id}>
+            <strong>{eventLabels[event.type]}</strong>{" "}
+            {new Date(event.createdAt).toLocaleString()}
+            <br />
+            {event.userAgent ?? "Unknown device"}
+            {event.ipAddress ? ` from ${event.ipAddress}` : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import {
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useActionData } from "@remix-run/react";
+
+import { getFormString, tooManyAttemptsMessage } from "~/lib/forms";
+import {
+  createBlankSessionCookie,
+  getSessionClient,
+  requireUser,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "password";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["deleteAccount"]>>,
+    "too_many_attempts" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  invalid_credentials: { password: "Incorrect password" },
+};
+
+export const loader = defineLoader(async (args) => {
+  await requireUser(args);
+  return null;
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context, response } = args;
+  const user = await requireUser(args);
+  const formData = await request.formData();
+
+  const result = await context.auth.deleteAccount(
+    user,
+    getFormString(formData, "password"),
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details };
+    }
+
+    if (result.error === "too_many_attempts") {
+      const form = tooManyAttemptsMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    return { errors: failureErrors[result.error] };
+  }
+
+  // Every session of the account, this one included, was ended
+  response.headers.append("Set-Cookie", createBlankSessionCookie(context.auth));
+  return { purgeAt: result.data.purgeAt };
+});
+
+export default function AccountDelete() {
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+
+  if (actionData && "purgeAt" in actionData) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Account deleted</h1>
+        <p>
+          Your account is closed and will be permanently deleted on{" "}
+          {new Date(actionData.purgeAt).toLocaleDateString()}. Contact us before
+          then if you change your mind.
+        </p>
+        <p>
+          <Link to="/">Home</Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Delete account</h1>
+      <p>
+        You'll be logged out everywhere and won't be able to log in again. The
+        account and everything in it is permanently deleted after a grace
+        period.
+      </p>
+      <Form method="post">
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <div>
+          <label>
+            Password{" "}
+            <input
+              type="password"
+              name="password"
+              autoComplete="current-password"
+            />
+          </label>
+          {errors.password ? <p role="alert">{errors.password}</p> : null}
+        </div>
+        <button type="submit">Delete my account</button>
+      </Form>
+      <p>
+        No password because you sign in with a provider?{" "}
+        <Link to="/forgot-password">Set one first</Link>.
+      </p>
+    </div>
+  );
+}
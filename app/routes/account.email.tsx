@@ -0,0 +1,186 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+
+import {
+  getFormString,
+  resendCooldownMessage,
+  tooManyAttemptsMessage,
+} from "~/lib/forms";
+import {
+  createSessionCookie,
+  getSessionClient,
+  requireUser,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "email" | "password" | "code";
+
+const failureErrors: Record<
+  | Exclude<
+      ResultError<ReturnType<AuthServiceInterface["requestEmailChange"]>>,
+      "resend_cooldown" | "too_many_attempts" | "validation_error"
+    >
+  | Exclude<
+      ResultError<ReturnType<AuthServiceInterface["confirmEmailChange"]>>,
+      "too_many_attempts" | "validation_error"
+    >,
+  FieldErrors<Fields>
+> = {
+  invalid_credentials: { password: "Incorrect password" },
+  email_taken: { email: "This email is already in use" },
+  invalid_code: { code: "The code is incorrect" },
+  expired_code: { code: "The code has expired, request a new one" },
+  attempts_exhausted: { form: "Too many wrong codes, request a new one" },
+};
+
+export const loader = defineLoader(async (args) => {
+  const user = await requireUser(args, { requireVerified: true });
+  return { email: user.email };
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context } = args;
+  const user = await requireUser(args, { requireVerified: true });
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "confirm") {
+    const newEmail = getFormString(formData, "newEmail");
+    const code = getFormString(formData, "code");
+
+    const result = await context.auth.confirmEmailChange(
+      user,
+      code,
+      getSessionClient(args)
+    );
+    if (result.type === "failure") {
+      if (result.error === "validation_error") {
+        return { newEmail, errors: result.details };
+      }
+
+      if (result.error === "too_many_attempts") {
+        const form = tooManyAttemptsMessage(result.details.retryAfter);
+        return { newEmail, errors: { form } as FieldErrors<Fields> };
+      }
+
+      // A taken address or a burned code can't be confirmed anymore, start
+      // over
+      if (
+        result.error === "email_taken" ||
+        result.error === "attempts_exhausted"
+      ) {
+        return { errors: failureErrors[result.error] };
+      }
+
+      return { newEmail, errors: failureErrors[result.error] };
+    }
+
+    return redirect("/", {
+      headers: {
+        "Set-Cookie": createSessionCookie(context.auth, result.data.sessionId),
+      },
+    });
+  }
+
+  const newEmail = getFormString(formData, "email");
+  const password = getFormString(formData, "password");
+
+  const result = await context.auth.requestEmailChange(
+    user,
+    newEmail,
+    password,
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    // The service names the fields after its parameters
+    if (result.error === "validation_error") {
+      const { newEmail, currentPassword } = result.details;
+      return { errors: { email: newEmail, password: currentPassword } };
+    }
+
+    if (result.error === "too_many_attempts") {
+      const form = tooManyAttemptsMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    if (result.error === "resend_cooldown") {
+      const form = resendCooldownMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    return { errors: failureErrors[result.error] };
+  }
+
+  return { newEmail, errors: {} as FieldErrors<Fields> };
+});
+
+export default function AccountEmail() {
+  const { email } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> = actionData?.errors ?? {};
+
+  if (actionData && "newEmail" in actionData) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Confirm your new email</h1>
+        <p>
+          We sent a code to <strong>{actionData.newEmail}</strong>. Your email
+          stays {email} until you enter it.
+        </p>
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <Form method="post">
+          <input type="hidden" name="intent" value="confirm" />
+          <input type="hidden" name="newEmail" value={actionData.newEmail} />
+          <div>
+            <label>
+              Code{" "}
+              <input
+                type="text"
+                name="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+              />
+            </label>
+            {errors.code ? <p role="alert">{errors.code}</p> : null}
+          </div>
+          <button type="submit">Confirm</button>
+        </Form>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Change email</h1>
+      <p>Your email is {email}.</p>
+      <Form method="post">
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <div>
+          <label>
+            New email <input type="email" name="email" autoComplete="email" />
+          </label>
+          {errors.email ? <p role="alert">{errors.email}</p> : null}
+        </div>
+        <div>
+          <label>
+            Current password{" "}
+            <input
+              type="password"
+              name="password"
+              autoComplete="current-password"
+            />
+          </label>
+          {errors.password ? <p role="alert">{errors.password}</p> : null}
+        </div>
+        <button type="submit">Send confirmation code</button>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import {
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { useActionData, useLoaderData, useSubmit } from "@remix-run/react";
+import { useState } from "react";
+
+import { getFormString } from "~/lib/forms";
+import { getSessionClient, requireUser } from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+import {
+  createPasskey,
+  parsePasskeyRegistrationResponse,
+} from "~/lib/webauthn";
+
+const failureErrors: Record<
+  ResultError<ReturnType<AuthServiceInterface["verifyPasskeyRegistration"]>>,
+  FieldErrors<never>
+> = {
+  invalid_challenge: { form: "The request expired, please try again" },
+  expired_challenge: { form: "The request expired, please try again" },
+  invalid_response: { form: "Your passkey couldn't be verified" },
+  unsupported_algorithm: { form: "This kind of passkey isn't supported" },
+  credential_exists: { form: "This passkey is already registered" },
+};
+
+export const loader = defineLoader(async (args) => {
+  const user = await requireUser(args, { requireVerified: true });
+  const result = await args.context.auth.createPasskeyRegistrationChallenge(
+    user
+  );
+
+  return { ...result.data, userId: user.id, userName: user.email };
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context } = args;
+  const user = await requireUser(args, { requireVerified: true });
+  const formData = await request.formData();
+
+  const response = parsePasskeyRegistrationResponse(
+    getFormString(formData, "response")
+  );
+  if (response == null) {
+    return { errors: failureErrors.invalid_response, registered: false };
+  }
+
+  const { origin } = new URL(request.url);
+  const result = await context.auth.verifyPasskeyRegistration(
+    user,
+    origin,
+    response,
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    return { errors: failureErrors[result.error], registered: false };
+  }
+
+  return { errors: {} as FieldErrors<never>, registered: true };
+});
+
+export default function AccountPasskeys() {
+  const options = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const submit = useSubmit();
+  const [clientError, setClientError] = useState<string | null>(null);
+  const error = clientError ?? actionData?.errors.form;
+
+  async function addPasskey() {
+    setClientError(null);
+    try {
+      const response = await createPasskey(options);
+      submit({ response: JSON.stringify(response) }, { method: "post" });
+    } catch {
+      setClientError("Passkey registration was cancelled");
+    }
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Passkeys</h1>
+      {actionData?.registered ? <p>Your passkey was added.</p> : null}
+      {error ? <p role="alert">{error}</p> : null}
+      <p>
+        {options.excludeCredentialIds.length === 0
+          ? "You don't have any passkeys yet."
+          : `You have ${options.excludeCredentialIds.length} passkey${
+              options.excludeCredentialIds.length === 1 ? "" : "s"
+            }.`}
+      </p>
+      <button type="button" onClick={addPasskey}>
+        Add a passkey
+      </button>
+    </div>
+  );
+}
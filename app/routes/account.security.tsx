@@ -0,0 +1,142 @@
+import {
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useActionData } from "@remix-run/react";
+
+import {
+  getFormString,
+  tooManyAttemptsMessage,
+  weakPasswordMessage,
+} from "~/lib/forms";
+import {
+  createSessionCookie,
+  getSessionClient,
+  requireUser,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "currentPassword" | "newPassword";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["changePassword"]>>,
+    "too_many_attempts" | "weak_password" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  invalid_credentials: { currentPassword: "Incorrect password" },
+};
+
+export const loader = defineLoader(async (args) => {
+  await requireUser(args, { requireVerified: true });
+  return null;
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context, response } = args;
+  const user = await requireUser(args, { requireVerified: true });
+  const formData = await request.formData();
+  const currentPassword = getFormString(formData, "currentPassword");
+  const newPassword = getFormString(formData, "newPassword");
+
+  const result = await context.auth.changePassword(
+    user,
+    currentPassword,
+    newPassword,
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details, changed: false };
+    }
+
+    if (result.error === "too_many_attempts") {
+      const form = tooManyAttemptsMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields>, changed: false };
+    }
+
+    if (result.error === "weak_password") {
+      const newPassword = weakPasswordMessage(result.details);
+      return { errors: { newPassword } as FieldErrors<Fields>, changed: false };
+    }
+
+    return { errors: failureErrors[result.error], changed: false };
+  }
+
+  // The old session was invalidated along with every other one
+  response.headers.append(
+    "Set-Cookie",
+    createSessionCookie(context.auth, result.data.sessionId)
+  );
+  return { errors: {} as FieldErrors<Fields>, changed: true };
+});
+
+export default function AccountSecurity() {
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> = actionData?.errors ?? {};
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Security</h1>
+      <h2>Change password</h2>
+      {actionData?.changed ? (
+        <p>Your password was changed and your other devices were signed out.</p>
+      ) : null}
+      <Form method="post">
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <div>
+          <label>
+            Current password{" "}
+            <input
+              type="password"
+              name="currentPassword"
+              autoComplete="current-password"
+            />
+          </label>
+          {errors.currentPassword ? (
+            <p role="alert">{errors.currentPassword}</p>
+          ) : null}
+        </div>
+        <div>
+          <label>
+            New password{" "}
+            <input
+              type="password"
+              name="newPassword"
+              autoComplete="new-password"
+            />
+          </label>
+          {errors.newPassword ? (
+            <p role="alert">{errors.newPassword}</p>
+          ) : null}
+        </div>
+        <button type="submit">Change password</button>
+      </Form>
+      <ul>
+        <li>
+          <Link to="/account/email">Change email</Link>
+        </li>
+        <li>
+          <Link to="/account/two-factor">Two-factor authentication</Link>
+        </li>
+        <li>
+          <Link to="/account/passkeys">Passkeys</Link>
+        </li>
+        <li>
+          <Link to="/account/sessions">Where you're logged in</Link>
+        </li>
+        <li>
+          <Link to="/account/activity">Recent security activity</Link>
+        </li>
+        <li>
+          <Link to="/account/delete">Delete account</Link>
+        </li>
+      </ul>
+    </div>
+  );
+}
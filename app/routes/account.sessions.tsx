@@ -0,0 +1,105 @@
+import {
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+
+import { getFormString } from "~/lib/forms";
+import {
+  getSessionClient,
+  getSessionId,
+  requireUser,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+const failureErrors: Record<
+  ResultError<ReturnType<AuthServiceInterface["revokeSession"]>>,
+  FieldErrors<never>
+> = {
+  session_not_found: { form: "That session has already ended" },
+};
+
+export const loader = defineLoader(async (args) => {
+  const { request, context } = args;
+  const user = await requireUser(args);
+  const sessionId = getSessionId(context.auth, request) ?? undefined;
+  const result = await context.auth.listSessions(user, sessionId);
+
+  return { sessions: result.data };
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context } = args;
+  const user = await requireUser(args);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "revoke-others") {
+    const sessionId = getSessionId(context.auth, request);
+    if (sessionId != null) {
+      await context.auth.revokeOtherSessions(
+        user,
+        sessionId,
+        getSessionClient(args)
+      );
+    }
+
+    return { errors: {} as FieldErrors<never> };
+  }
+
+  const result = await context.auth.revokeSession(
+    user,
+    getFormString(formData, "sessionId"),
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    return { errors: failureErrors[result.error] };
+  }
+
+  return { errors: {} as FieldErrors<never> };
+});
+
+export default function AccountSessions() {
+  const { sessions } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<never> = actionData?.errors ?? {};
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Where you're logged in</h1>
+      {errors.form ? <p role="alert">{errors.form}</p> : null}
+      <ul>
+        {sessions.map((session) => (
+          <li key={session.id}>
+            <strong>{session.userAgent ?? "Unknown device"}</strong>
+            {session.ipAddress ? ` from ${session.ipAddress}` : null}
+            <br />
+            Signed in {new Date(session.createdAt).toLocaleString()}, last
+            active {new Date(session.lastSeenAt).toLocaleString()}
+            <br />
+            {session.current ? (
+              <em>This device</em>
+            ) : (
+              <Form method="post">
+                <input type="hidden" name="sessionId" value={session.id} />
+                <button type="submit" name="intent" value="revoke">
+                  Log out
+                </button>
+              </Form>
+            )}
+          </li>
+        ))}
+      </ul>
+      {sessions.length > 1 ? (
+        <Form method="post">
+          <button type="submit" name="intent" value="revoke-others">
+            Log out everywhere else
+          </button>
+        </Form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import {
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+
+import { getFormString } from "~/lib/forms";
+import { getSessionClient, requireUser } from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "code";
+
+const failureErrors: Record<
+  | ResultError<ReturnType<AuthServiceInterface["beginTwoFactorEnrollment"]>>
+  | Exclude<
+      ResultError<
+        ReturnType<AuthServiceInterface["confirmTwoFactorEnrollment"]>
+      >,
+      "validation_error"
+    >,
+  FieldErrors<Fields>
+> = {
+  already_enabled: { form: "Two-factor authentication is already enabled" },
+  not_enrolling: { form: "Start the setup again" },
+  invalid_code: { code: "The code is incorrect" },
+};
+
+export const loader = defineLoader(async (args) => {
+  const user = await requireUser(args, { requireVerified: true });
+  const status = await args.context.auth.getTwoFactorStatus(user);
+
+  return { enabled: status.type === "success" && status.data.enabled };
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context } = args;
+  const user = await requireUser(args, { requireVerified: true });
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "begin") {
+    const result = await context.auth.beginTwoFactorEnrollment(user);
+    if (result.type === "failure") {
+      return { errors: failureErrors[result.error] };
+    }
+
+    return { enrollment: result.data };
+  }
+
+  // The secret is sent back with the code so a failed attempt can show the
+  // same setup instructions again
+  const enrollment = {
+    secret: getFormString(formData, "secret"),
+    uri: getFormString(formData, "uri"),
+  };
+  const code = getFormString(formData, "code");
+
+  const result = await context.auth.confirmTwoFactorEnrollment(
+    user,
+    code,
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { enrollment, errors: result.details };
+    }
+
+    return { enrollment, errors: failureErrors[result.error] };
+  }
+
+  return { recoveryCodes: result.data.recoveryCodes };
+});
+
+export default function AccountTwoFactor() {
+  const { enabled } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+
+  if (actionData && "recoveryCodes" in actionData) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Two-factor authentication enabled</h1>
+        <p>
+          Save these recovery codes somewhere safe. Each one can be used once
+          if you lose access to your authenticator app.
+        </p>
+        <ul>
+          {actionData.recoveryCodes.map((code) => (
+            <li key={code}>
+              <code>{code}</code>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (actionData && "enrollment" in actionData) {
+    const { secret, uri } = actionData.enrollment;
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Set up two-factor authentication</h1>
+        <p>
+          Add this account to your authenticator app with the link below, or
+          enter the key <code>{secret}</code> manually.
+        </p>
+        <p>
+          <a href={uri}>{uri}</a>
+        </p>
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <Form method="post">
+          <input type="hidden" name="intent" value="confirm" />
+          <input type="hidden" name="secret" value={secret} />
+          <input type="hidden" name="uri" value={uri} />
+          <div>
+            <label>
+              Code{" "}
+              <input
+                type="text"
+                name="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+              />
+            </label>
+            {errors.code ? <p role="alert">{errors.code}</p> : null}
+          </div>
+          <button type="submit">Confirm</button>
+        </Form>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Two-factor authentication</h1>
+      {errors.form ? <p role="alert">{errors.form}</p> : null}
+      {enabled ? (
+        <p>Two-factor authentication is enabled on your account.</p>
+      ) : (
+        <Form method="post">
+          <p>Protect your account with a code from an authenticator app.</p>
+          <button type="submit" name="intent" value="begin">
+            Set up two-factor authentication
+          </button>
+        </Form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import {
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useSearchParams,
+} from "@remix-run/react";
+
+import { getFormString, tooManyAttemptsMessage } from "~/lib/forms";
+import { getSessionClient, requirePermission } from "~/lib/session.server";
+import type { FieldErrors, UserListQuery } from "~/lib/types";
+
+const verifiedFilters: Record<string, boolean> = {
+  verified: true,
+  unverified: false,
+};
+
+export const loader = defineLoader(async (args) => {
+  await requirePermission(args, "users:read");
+  const { searchParams } = new URL(args.request.url);
+
+  const query: UserListQuery = {
+    search: searchParams.get("q") ?? "",
+    verified: verifiedFilters[searchParams.get("status") ?? ""],
+    sort: searchParams.get("sort") === "oldest" ? "oldest" : "newest",
+    page: Number(searchParams.get("page")) || 1,
+  };
+  const result = await args.context.auth.listUsers(query);
+
+  return result.data;
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context } = args;
+  const admin = await requirePermission(args, "users:manage");
+  const formData = await request.formData();
+  const intent = getFormString(formData, "intent");
+
+  const target = await context.auth.getManagedUser(
+    getFormString(formData, "userId")
+  );
+  if (target.type === "failure") {
+    return { errors: { form: "That user no longer exists" } };
+  }
+  const { id, email, disabledAt, deletedAt } = target.data;
+
+  // Locking yourself out needs another admin
+  if (id === admin.id && (intent === "disable" || intent === "delete")) {
+    return { errors: { form: "You can't disable or delete your own account" } };
+  }
+
+  switch (intent) {
+    case "verify":
+      await context.auth.forceVerifyEmail(id, getSessionClient(args));
+      return { notice: `Marked ${email} as verified` };
+    case "reset-password": {
+      // The service quietly sends nothing to these, the link couldn't be used
+      if (disabledAt || deletedAt) {
+        const status = disabledAt ? "disabled" : "deleted";
+        const form = `${email} is ${status}, so no reset link was sent`;
+        return { errors: { form } };
+      }
+
+      const result = await context.auth.resetPasswordRequest(
+        context.appUrl,
+        email,
+        getSessionClient(args)
+      );
+      if (result.type === "failure") {
+        const form =
+          result.error === "too_many_attempts"
+            ? tooManyAttemptsMessage(result.details.retryAfter)
+            : "Couldn't send a reset link to that address";
+        return { errors: { form } };
+      }
+
+      return { notice: `Sent a password reset link to ${email}` };
+    }
+    case "revoke-sessions":
+      await context.auth.revokeAllSessions(id, getSessionClient(args));
+      return { notice: `Logged ${email} out everywhere` };
+    case "disable":
+      await context.auth.setUserDisabled(id, true, getSessionClient(args));
+      return { notice: `Disabled ${email}` };
+    case "enable":
+      await context.auth.setUserDisabled(id, false, getSessionClient(args));
+      return { notice: `Enabled ${email}` };
+    case "delete":
+      await context.auth.deleteUser(id, getSessionClient(args));
+      return { notice: `Deleted ${email}` };
+    default:
+      throw new Response("Bad Request", { status: 400 });
+  }
+});
+
+export default function AdminUsers() {
+  const { users, total, page, pageCount } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<never> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+  const [searchParams] = useSearchParams();
+
+  function pageLink(page: number) {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(page));
+    return `?${params}`;
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Users</h1>
+      {errors.form ? <p role="alert">{errors.form}</p> : null}
+      {actionData && "notice" in actionData ? (
+        <p role="status">{actionData.notice}</p>
+      ) : null}
+      <Form method="get">
+        <label>
+          Email{" "}
+          <input
+            type="search"
+            name="q"
+            defaultValue={searchParams.get("q") ?? ""}
+          />
+        </label>{" "}
+        <select name="status" defaultValue={searchParams.get("status") ?? ""}>
+          <option value="">All</option>
+          <option value="verified">Verified</option>
+          <option value="unverified">Unverified</option>
+        </select>{" "}
+        <select name="sort" defaultValue={searchParams.get("sort") ?? "newest"}>
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+        </select>{" "}
+        <button type="submit">Search</button>
+      </Form>
+      <p>
+        {total} user{total === 1 ? "" : "s"}
+      </p>
+      <ul>
+        {users.map((user) => (
+          <li key={user.id}>
+            <strong>{user.email}</strong>
+            {user.roles.length > 0 ? ` (${user.roles.join(", ")})` : null}
+            <br />
+            {user.emailVerified ? "Verified" : "Unverified"}, signed up{" "}
+            {new Date(user.createdAt).toLocaleString()}
+            {user.disabledAt
+              ? `, disabled ${new Date(user.disabledAt).toLocaleString()}`
+              : null}
+            {user.deletedAt
+              ? `, deleted by its owner ${new Date(
+                  user.deletedAt
+                ).toLocaleString()}`
+              : null}
+            <Form method="post">
+              <input type="hidden" name="userId" value={user.id} />
+              {user.emailVerified ? null : (
+                <button type="submit" name="intent" value="verify">
+                  Mark verified
+                </button>
+              )}{" "}
+              <button type="submit" name="intent" value="reset-password">
+                Send reset link
+              </button>{" "}
+              <button type="submit" name="intent" value="revoke-sessions">
+                Log out everywhere
+              </button>{" "}
+              {user.disabledAt || user.deletedAt ? (
+                <button type="submit" name="intent" value="enable">
+                  {user.deletedAt ? "Restore" : "Enable"}
+                </button>
+              ) : (
+                <button type="submit" name="intent" value="disable">
+                  Disable
+                </button>
+              )}{" "}
+              <button
+                type="submit"
+                name="intent"
+                value="delete"
+                onClick={(event) => {
+                  if (!confirm(`Delete ${user.email}? This can't be undone.`)) {
+                    event.preventDefault();
+                  }
+                }}
+              >
+                Delete
+              </button>
+            </Form>
+          </li>
+        ))}
+      </ul>
+      {pageCount > 1 ? (
+        <nav>
+          {page > 1 ? <Link to={pageLink(page - 1)}>Previous</Link> : null} Page{" "}
+          {page} of {pageCount}{" "}
+          {page < pageCount ? <Link to={pageLink(page + 1)}>Next</Link> : null}
+        </nav>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import {
+  redirect,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+
+import { oauthStateCookie, safeRedirect } from "~/lib/session.server";
+
+export const loader = defineLoader(async ({ request, params, context }) => {
+  const result = await context.oauth.createAuthorization(
+    params.provider ?? ""
+  );
+  if (result.type === "failure") {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const { url, state, codeVerifier } = result.data;
+  const redirectTo = safeRedirect(
+    new URL(request.url).searchParams.get("redirectTo")
+  );
+
+  return redirect(url.toString(), {
+    headers: {
+      "Set-Cookie": await oauthStateCookie.serialize({
+        state,
+        codeVerifier,
+        redirectTo,
+      }),
+    },
+  });
+});
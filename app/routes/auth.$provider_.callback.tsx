@@ -0,0 +1,72 @@
+import {
+  redirect,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+
+import {
+  createSessionCookie,
+  getSessionClient,
+  oauthStateCookie,
+  pendingTwoFactorCookie,
+  safeRedirect,
+} from "~/lib/session.server";
+
+type OAuthState = {
+  state: string;
+  codeVerifier: string;
+  redirectTo: string;
+};
+
+export const loader = defineLoader(async ({ request, params, context }) => {
+  const providerId = params.provider ?? "";
+  const url = new URL(request.url);
+  const storedState: OAuthState | null = await oauthStateCookie.parse(
+    request.headers.get("Cookie")
+  );
+
+  const headers = new Headers();
+  headers.append(
+    "Set-Cookie",
+    await oauthStateCookie.serialize("", { maxAge: 0 })
+  );
+
+  const profileResult = await context.oauth.validateCallback(providerId, {
+    code: url.searchParams.get("code"),
+    state: url.searchParams.get("state"),
+    storedState: storedState?.state ?? null,
+    codeVerifier: storedState?.codeVerifier ?? null,
+  });
+  if (profileResult.type === "failure") {
+    if (profileResult.error === "unknown_provider") {
+      throw new Response("Not Found", { status: 404 });
+    }
+
+    return redirect(`/login?error=${profileResult.error}`, { headers });
+  }
+
+  const redirectTo = safeRedirect(storedState?.redirectTo ?? null);
+  const result = await context.auth.loginWithOAuth(
+    { providerId, profile: profileResult.data },
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    if (result.error === "two_factor_required") {
+      headers.append(
+        "Set-Cookie",
+        await pendingTwoFactorCookie.serialize(
+          result.details.pendingLoginToken
+        )
+      );
+      const searchParams = new URLSearchParams({ redirectTo });
+      return redirect(`/two-factor?${searchParams}`, { headers });
+    }
+
+    return redirect(`/login?error=${result.error}`, { headers });
+  }
+
+  headers.append(
+    "Set-Cookie",
+    createSessionCookie(context.auth, result.data.sessionId)
+  );
+  return redirect(redirectTo, { headers });
+});
@@ -0,0 +1,66 @@
+import { unstable_defineAction as defineAction } from "@remix-run/node";
+import { Form, Link, useActionData } from "@remix-run/react";
+
+import { getFormString, tooManyAttemptsMessage } from "~/lib/forms";
+import { getSessionClient } from "~/lib/session.server";
+import type { FieldErrors } from "~/lib/types";
+
+type Fields = "email";
+
+export const action = defineAction(async ({ request, context }) => {
+  const formData = await request.formData();
+  const email = getFormString(formData, "email");
+
+  const result = await context.auth.resetPasswordRequest(
+    context.appUrl,
+    email,
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details };
+    }
+
+    const form = tooManyAttemptsMessage(result.details.retryAfter);
+    return { errors: { form } as FieldErrors<Fields> };
+  }
+
+  return { sent: true };
+});
+
+export default function ForgotPassword() {
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+
+  if (actionData && "sent" in actionData) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Check your email</h1>
+        <p>
+          If an account exists for that email, we sent it a link to reset your
+          password.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Forgot password</h1>
+      <Form method="post">
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <div>
+          <label>
+            Email <input type="email" name="email" autoComplete="email" />
+          </label>
+          {errors.email ? <p role="alert">{errors.email}</p> : null}
+        </div>
+        <button type="submit">Send reset link</button>
+      </Form>
+      <p>
+        <Link to="/login">Back to log in</Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useSearchParams,
+} from "@remix-run/react";
+
+import { getFormString, tooManyAttemptsMessage } from "~/lib/forms";
+import {
+  createSessionCookie,
+  getOptionalUser,
+  getSessionClient,
+  pendingTwoFactorCookie,
+  safeRedirect,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "email" | "password";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["login"]>>,
+    "too_many_attempts" | "two_factor_required" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  // Deliberately vague, saying which one is wrong would confirm the account
+  // exists
+  invalid_credentials: { form: "Incorrect email or password" },
+  account_disabled: { form: "This account has been disabled" },
+};
+
+// Errors the OAuth callback redirects back with
+const oauthErrors: Record<string, string> = {
+  invalid_state: "Your sign in attempt expired, please try again",
+  oauth_error: "We couldn't sign you in with that provider",
+  email_missing: "Your account with that provider has no email address",
+  email_not_verified:
+    "Verify your email with that provider, or log in with your password",
+  account_disabled: "This account has been disabled",
+};
+
+export const loader = defineLoader(async ({ request, context }) => {
+  const user = await getOptionalUser({ request, context });
+  if (user != null) {
+    const redirectTo = new URL(request.url).searchParams.get("redirectTo");
+    throw redirect(safeRedirect(redirectTo));
+  }
+
+  const error = new URL(request.url).searchParams.get("error");
+  return {
+    providers: context.oauth.listProviders(),
+    oauthError: error ? oauthErrors[error] ?? null : null,
+  };
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const formData = await request.formData();
+  const email = getFormString(formData, "email");
+  const password = getFormString(formData, "password");
+  const redirectTo = safeRedirect(getFormString(formData, "redirectTo"));
+
+  const result = await context.auth.login(
+    { email, password },
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details };
+    }
+
+    if (result.error === "too_many_attempts") {
+      const form = tooManyAttemptsMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    if (result.error === "two_factor_required") {
+      const { pendingLoginToken } = result.details;
+      const searchParams = new URLSearchParams({ redirectTo });
+      return redirect(`/two-factor?${searchParams}`, {
+        headers: {
+          "Set-Cookie": await pendingTwoFactorCookie.serialize(
+            pendingLoginToken
+          ),
+        },
+      });
+    }
+
+    return { errors: failureErrors[result.error] };
+  }
+
+  return redirect(redirectTo, {
+    headers: {
+      "Set-Cookie": createSessionCookie(context.auth, result.data.sessionId),
+    },
+  });
+});
+
+export default function Login() {
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> = actionData?.errors ?? {};
+  const [searchParams] = useSearchParams();
+  const { providers, oauthError } = useLoaderData<typeof loader>();
+  const redirectTo = searchParams.get("redirectTo") ?? "";
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Log in</h1>
+      {oauthError ? <p role="alert">{oauthError}</p> : null}
+      <Form method="post">
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <input type="hidden" name="redirectTo" value={redirectTo} />
+        <div>
+          <label>
+            Email <input type="email" name="email" autoComplete="email" />
+          </label>
+          {errors.email ? <p role="alert">{errors.email}</p> : null}
+        </div>
+        <div>
+          <label>
+            Password{" "}
+            <input
+              type="password"
+              name="password"
+              autoComplete="current-password"
+            />
+          </label>
+          {errors.password ? <p role="alert">{errors.password}</p> : null}
+        </div>
+        <button type="submit">Log in</button>
+      </Form>
+      {providers.map((provider) => (
+        <p key={provider.id}>
+          <a
+            href={`/auth/${provider.id}?${new URLSearchParams({ redirectTo })}`}
+          >
+            Sign in with {provider.name}
+          </a>
+        </p>
+      ))}
+      <p>
+        <Link to={`/passkey?${new URLSearchParams({ redirectTo })}`}>
+          Log in with a passkey
+        </Link>
+      </p>
+      <p>
+        <Link to="/magic-link">Email me a login link</Link>
+      </p>
+      <p>
+        <Link to="/forgot-password">Forgot your password?</Link>
+      </p>
+      <p>
+        Don't have an account? <Link to="/signup">Sign up</Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+
+import {
+  createBlankSessionCookie,
+  getSessionClient,
+  getSessionId,
+} from "~/lib/session.server";
+
+export const loader = defineLoader(() => {
+  return redirect("/");
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const sessionId = getSessionId(context.auth, request);
+  if (sessionId) {
+    await context.auth.logout(
+      sessionId,
+      getSessionClient({ request, context })
+    );
+  }
+
+  return redirect("/login", {
+    headers: { "Set-Cookie": createBlankSessionCookie(context.auth) },
+  });
+});
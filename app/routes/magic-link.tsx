@@ -0,0 +1,147 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+
+import { getFormString, tooManyAttemptsMessage } from "~/lib/forms";
+import {
+  createSessionCookie,
+  getSessionClient,
+  pendingTwoFactorCookie,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "email";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["consumeMagicLink"]>>,
+    "two_factor_required" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  invalid_token: { form: "This link is invalid or was already used" },
+  expired_token: { form: "This link has expired" },
+  account_disabled: { form: "This account has been disabled" },
+};
+
+export const loader = defineLoader(({ request }) => {
+  const token = new URL(request.url).searchParams.get("token");
+  return { token };
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const formData = await request.formData();
+
+  // Links are only consumed by submitting the form, so email scanners that
+  // prefetch links can't burn them
+  if (formData.get("intent") === "consume") {
+    const result = await context.auth.consumeMagicLink(
+      getFormString(formData, "token"),
+      getSessionClient({ request, context })
+    );
+    if (result.type === "failure") {
+      // The token isn't a field the user can correct
+      if (result.error === "validation_error") {
+        return { errors: { form: result.details.token } };
+      }
+
+      if (result.error === "two_factor_required") {
+        return redirect("/two-factor", {
+          headers: {
+            "Set-Cookie": await pendingTwoFactorCookie.serialize(
+              result.details.pendingLoginToken
+            ),
+          },
+        });
+      }
+
+      return { errors: failureErrors[result.error] };
+    }
+
+    return redirect("/", {
+      headers: {
+        "Set-Cookie": createSessionCookie(context.auth, result.data.sessionId),
+      },
+    });
+  }
+
+  const email = getFormString(formData, "email");
+
+  const result = await context.auth.requestMagicLink(context.appUrl, email);
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details };
+    }
+
+    const form = tooManyAttemptsMessage(result.details.retryAfter);
+    return { errors: { form } as FieldErrors<Fields> };
+  }
+
+  return { sent: true };
+});
+
+export default function MagicLink() {
+  const { token } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+
+  if (actionData && "sent" in actionData) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Check your email</h1>
+        <p>
+          If an account exists for that email, we sent it a link to log in. It
+          expires in 15 minutes.
+        </p>
+      </div>
+    );
+  }
+
+  if (token) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Log in</h1>
+        {errors.form ? (
+          <p role="alert">
+            {errors.form}. <Link to="/magic-link">Request a new link</Link>
+          </p>
+        ) : null}
+        <Form method="post">
+          <input type="hidden" name="token" value={token} />
+          <button type="submit" name="intent" value="consume">
+            Continue
+          </button>
+        </Form>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Log in with an email link</h1>
+      <Form method="post">
+        {errors.form ? <p role="alert">{errors.form}</p> : null}
+        <div>
+          <label>
+            Email <input type="email" name="email" autoComplete="email" />
+          </label>
+          {errors.email ? <p role="alert">{errors.email}</p> : null}
+        </div>
+        <button type="submit" name="intent" value="request">
+          Send me a link
+        </button>
+      </Form>
+      <p>
+        <Link to="/login">Log in with your password</Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import {
+  Link,
+  useActionData,
+  useLoaderData,
+  useSearchParams,
+  useSubmit,
+} from "@remix-run/react";
+import { useState } from "react";
+
+import { getFormString } from "~/lib/forms";
+import {
+  createSessionCookie,
+  getOptionalUser,
+  getSessionClient,
+  safeRedirect,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+import { getPasskey, parsePasskeyAuthenticationResponse } from "~/lib/webauthn";
+
+const failureErrors: Record<
+  ResultError<ReturnType<AuthServiceInterface["loginWithPasskey"]>>,
+  FieldErrors<never>
+> = {
+  invalid_challenge: { form: "The request expired, please try again" },
+  expired_challenge: { form: "The request expired, please try again" },
+  unknown_credential: { form: "This passkey isn't registered to an account" },
+  invalid_response: { form: "Your passkey couldn't be verified" },
+  user_verification_required: {
+    form: "Unlock your passkey with its PIN or biometrics to log in",
+  },
+  counter_regression: {
+    form: "This passkey looks like a copy and was refused",
+  },
+  account_disabled: { form: "This account has been disabled" },
+};
+
+export const loader = defineLoader(async ({ request, context }) => {
+  const user = await getOptionalUser({ request, context });
+  if (user != null) {
+    const redirectTo = new URL(request.url).searchParams.get("redirectTo");
+    throw redirect(safeRedirect(redirectTo));
+  }
+
+  const result = await context.auth.createPasskeyLoginChallenge();
+  return { challenge: result.data.challenge };
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const formData = await request.formData();
+  const redirectTo = safeRedirect(getFormString(formData, "redirectTo"));
+
+  const response = parsePasskeyAuthenticationResponse(
+    getFormString(formData, "response")
+  );
+  if (response == null) {
+    return { errors: failureErrors.invalid_response };
+  }
+
+  const { origin } = new URL(request.url);
+  const result = await context.auth.loginWithPasskey(
+    origin,
+    response,
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    return { errors: failureErrors[result.error] };
+  }
+
+  return redirect(redirectTo, {
+    headers: {
+      "Set-Cookie": createSessionCookie(context.auth, result.data.sessionId),
+    },
+  });
+});
+
+export default function Passkey() {
+  const { challenge } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const [searchParams] = useSearchParams();
+  const submit = useSubmit();
+  const [clientError, setClientError] = useState<string | null>(null);
+  const error = clientError ?? actionData?.errors.form;
+
+  async function login() {
+    setClientError(null);
+    try {
+      const response = await getPasskey(challenge);
+      submit(
+        {
+          response: JSON.stringify(response),
+          redirectTo: searchParams.get("redirectTo") ?? "",
+        },
+        { method: "post" }
+      );
+    } catch {
+      setClientError("Passkey login was cancelled");
+    }
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Log in with a passkey</h1>
+      {error ? <p role="alert">{error}</p> : null}
+      <button type="button" onClick={login}>
+        Use a passkey
+      </button>
+      <p>
+        <Link to="/login">Log in with your password instead</Link>
+      </p>
+    </div>
+  );
+}
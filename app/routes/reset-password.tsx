@@ -0,0 +1,119 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+
+import { getFormString, weakPasswordMessage } from "~/lib/forms";
+import { createSessionCookie, getSessionClient } from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "password";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["resetPassword"]>>,
+    "weak_password" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  invalid_code: { form: "This reset link is invalid or was already used" },
+  code_expired: { form: "This reset link has expired" },
+  account_disabled: { form: "This account has been disabled" },
+};
+
+export const loader = defineLoader(async ({ request, context }) => {
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token) {
+    throw redirect("/forgot-password");
+  }
+
+  // A used or expired link gets the error up front instead of after the user
+  // typed a new password
+  const result = await context.auth.validateResetToken(token);
+  if (result.type === "failure") {
+    return { token, linkError: failureErrors[result.error].form };
+  }
+
+  return { token, linkError: null };
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const formData = await request.formData();
+  const token = getFormString(formData, "token");
+  const password = getFormString(formData, "password");
+
+  const result = await context.auth.resetPassword(
+    password,
+    token,
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      const { newPassword, token } = result.details;
+      return { errors: { password: newPassword, form: token } };
+    }
+
+    if (result.error === "weak_password") {
+      const password = weakPasswordMessage(result.details);
+      return { errors: { password } as FieldErrors<Fields> };
+    }
+
+    return { errors: failureErrors[result.error] };
+  }
+
+  return redirect("/", {
+    headers: {
+      "Set-Cookie": createSessionCookie(context.auth, result.data.sessionId),
+    },
+  });
+});
+
+export default function ResetPassword() {
+  const { token, linkError } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> = actionData?.errors ?? {};
+
+  if (linkError != null) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Reset password</h1>
+        <p role="alert">
+          {linkError}. <Link to="/forgot-password">Request a new link</Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Reset password</h1>
+      <Form method="post">
+        {errors.form ? (
+          <p role="alert">
+            {errors.form}.{" "}
+            <Link to="/forgot-password">Request a new link</Link>
+          </p>
+        ) : null}
+        <input type="hidden" name="token" value={token} />
+        <div>
+          <label>
+            New password{" "}
+            <input
+              type="password"
+              name="password"
+              autoComplete="new-password"
+            />
+          </label>
+          {errors.password ? <p role="alert">{errors.password}</p> : null}
+        </div>
+        <button type="submit">Reset password</button>
+      </Form>
+    </div>
+  );
+}
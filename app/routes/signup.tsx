@@ -0,0 +1,91 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useActionData } from "@remix-run/react";
+
+import { getFormString, weakPasswordMessage } from "~/lib/forms";
+import { getOptionalUser, getSessionClient } from "~/lib/session.server";
+import type { FieldErrors } from "~/lib/types";
+
+type Fields = "email" | "password";
+
+export const loader = defineLoader(async ({ request, context }) => {
+  const user = await getOptionalUser({ request, context });
+  if (user != null) {
+    throw redirect("/");
+  }
+
+  return null;
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const formData = await request.formData();
+  const email = getFormString(formData, "email");
+  const password = getFormString(formData, "password");
+
+  const result = await context.auth.signup(
+    { email, password },
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details };
+    }
+
+    const password = weakPasswordMessage(result.details);
+    return { errors: { password } as FieldErrors<Fields> };
+  }
+
+  // Same answer whether or not the email was already registered
+  return { sent: true };
+});
+
+export default function Signup() {
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+
+  if (actionData && "sent" in actionData) {
+    return (
+      <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+        <h1>Check your email</h1>
+        <p>
+          We sent you an email with the next steps. To confirm a new account,{" "}
+          <Link to="/login?redirectTo=/verify-email">log in</Link> and enter the
+          code from it.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Sign up</h1>
+      <Form method="post">
+        <div>
+          <label>
+            Email <input type="email" name="email" autoComplete="email" />
+          </label>
+          {errors.email ? <p role="alert">{errors.email}</p> : null}
+        </div>
+        <div>
+          <label>
+            Password{" "}
+            <input
+              type="password"
+              name="password"
+              autoComplete="new-password"
+            />
+          </label>
+          {errors.password ? <p role="alert">{errors.password}</p> : null}
+        </div>
+        <button type="submit">Create account</button>
+      </Form>
+      <p>
+        Already have an account? <Link to="/login">Log in</Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, Link, useActionData } from "@remix-run/react";
+
+import { getFormString, tooManyAttemptsMessage } from "~/lib/forms";
+import {
+  createSessionCookie,
+  getSessionClient,
+  pendingTwoFactorCookie,
+  safeRedirect,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "code";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["verifyTwoFactorLogin"]>>,
+    "too_many_attempts" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  invalid_token: { form: "Your login attempt is no longer valid" },
+  expired_token: { form: "Your login attempt has expired" },
+  invalid_code: { code: "The code is incorrect" },
+  account_disabled: { form: "This account has been disabled" },
+};
+
+export const loader = defineLoader(async ({ request }) => {
+  const pendingLoginToken = await pendingTwoFactorCookie.parse(
+    request.headers.get("Cookie")
+  );
+  if (!pendingLoginToken) {
+    throw redirect("/login");
+  }
+
+  return null;
+});
+
+export const action = defineAction(async ({ request, context }) => {
+  const pendingLoginToken = await pendingTwoFactorCookie.parse(
+    request.headers.get("Cookie")
+  );
+  if (!pendingLoginToken) {
+    throw redirect("/login");
+  }
+
+  const formData = await request.formData();
+  const code = getFormString(formData, "code");
+
+  const result = await context.auth.verifyTwoFactorLogin(
+    pendingLoginToken,
+    code,
+    getSessionClient({ request, context })
+  );
+  if (result.type === "failure") {
+    // A malformed pending login token means the cookie was tampered with
+    if (result.error === "validation_error") {
+      const { code, pendingLoginToken } = result.details;
+      return { errors: { code, form: pendingLoginToken } };
+    }
+
+    if (result.error === "too_many_attempts") {
+      const form = tooManyAttemptsMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    return { errors: failureErrors[result.error] };
+  }
+
+  const redirectTo = safeRedirect(
+    new URL(request.url).searchParams.get("redirectTo")
+  );
+  const headers = new Headers();
+  headers.append(
+    "Set-Cookie",
+    createSessionCookie(context.auth, result.data.sessionId)
+  );
+  headers.append(
+    "Set-Cookie",
+    await pendingTwoFactorCookie.serialize("", { maxAge: 0 })
+  );
+
+  return redirect(redirectTo, { headers });
+});
+
+export default function TwoFactor() {
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> = actionData?.errors ?? {};
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Two-factor authentication</h1>
+      <p>
+        Enter the code from your authenticator app, or one of your recovery
+        codes.
+      </p>
+      {errors.form ? (
+        <p role="alert">
+          {errors.form} <Link to="/login">Log in again</Link>
+        </p>
+      ) : null}
+      <Form method="post">
+        <div>
+          <label>
+            Code{" "}
+            <input type="text" name="code" autoComplete="one-time-code" />
+          </label>
+          {errors.code ? <p role="alert">{errors.code}</p> : null}
+        </div>
+        <button type="submit">Verify</button>
+      </Form>
+    </div>
+  );
+}
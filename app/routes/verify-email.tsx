@@ -0,0 +1,130 @@
+import {
+  redirect,
+  unstable_defineAction as defineAction,
+  unstable_defineLoader as defineLoader,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+
+import {
+  getFormString,
+  resendCooldownMessage,
+  tooManyAttemptsMessage,
+} from "~/lib/forms";
+import {
+  createSessionCookie,
+  getSessionClient,
+  requireUser,
+} from "~/lib/session.server";
+import type {
+  AuthServiceInterface,
+  FieldErrors,
+  ResultError,
+} from "~/lib/types";
+
+type Fields = "code";
+
+const failureErrors: Record<
+  Exclude<
+    ResultError<ReturnType<AuthServiceInterface["verifyEmailCode"]>>,
+    "too_many_attempts" | "validation_error"
+  >,
+  FieldErrors<Fields>
+> = {
+  invalid_code: { code: "The code is incorrect" },
+  expired_code: { code: "The code has expired, request a new one" },
+  attempts_exhausted: { code: "Too many wrong codes, request a new one" },
+};
+
+export const loader = defineLoader(async (args) => {
+  const user = await requireUser(args);
+  if (user.emailVerified) {
+    throw redirect("/");
+  }
+
+  return { email: user.email };
+});
+
+export const action = defineAction(async (args) => {
+  const { request, context } = args;
+  const user = await requireUser(args);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "resend") {
+    const result = await context.auth.createEmailVerificationCode(
+      user.id,
+      user.email
+    );
+    if (result.type === "failure") {
+      const form = resendCooldownMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    return { resent: true };
+  }
+
+  const code = getFormString(formData, "code");
+
+  const result = await context.auth.verifyEmailCode(
+    user,
+    code,
+    getSessionClient(args)
+  );
+  if (result.type === "failure") {
+    if (result.error === "validation_error") {
+      return { errors: result.details };
+    }
+
+    if (result.error === "too_many_attempts") {
+      const form = tooManyAttemptsMessage(result.details.retryAfter);
+      return { errors: { form } as FieldErrors<Fields> };
+    }
+
+    return { errors: failureErrors[result.error] };
+  }
+
+  return redirect("/", {
+    headers: {
+      "Set-Cookie": createSessionCookie(context.auth, result.data.sessionId),
+    },
+  });
+});
+
+export default function VerifyEmail() {
+  const { email } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const errors: FieldErrors<Fields> =
+    actionData && "errors" in actionData ? actionData.errors : {};
+
+  return (
+    <div style={{ fontFamily: "system-ui, sans-serif", lineHeight: "1.8" }}>
+      <h1>Verify your email</h1>
+      <p>We sent an 8-digit code to {email}.</p>
+      {actionData && "resent" in actionData ? (
+        <p>A new code is on its way.</p>
+      ) : null}
+      {errors.form ? <p role="alert">{errors.form}</p> : null}
+      <Form method="post">
+        <div>
+          <label>
+            Code{" "}
+            <input
+              type="text"
+              name="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+            />
+          </label>
+          {errors.code ? <p role="alert">{errors.code}</p> : null}
+        </div>
+        <button type="submit" name="intent" value="verify">
+          Verify
+        </button>
+      </Form>
+      <Form method="post">
+        <button type="submit" name="intent" value="resend">
+          Send a new code
+        </button>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { and, isNotNull, lte } from "drizzle-orm";
+import { TimeSpan } from "oslo";
+
+import * as schema from "../../db/schema";
+import type { getDrizzle } from "../db";
+
+// Removes accounts whose owners deleted them once the grace period is over.
+// Until then an admin can still restore them.
+export class AccountPurger {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly drizzle: ReturnType<typeof getDrizzle>,
+    public readonly gracePeriod = new TimeSpan(30, "d")
+  ) {}
+
+  // Returns how many accounts were deleted
+  async purge(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.gracePeriod.milliseconds());
+    const purged = await this.drizzle
+      .delete(schema.users)
+      .where(
+        and(
+          isNotNull(schema.users.deletedAt),
+          lte(schema.users.deletedAt, cutoff)
+        )
+      )
+      .returning({ id: schema.users.id });
+
+    return purged.length;
+  }
+
+  // Purges until `stop` is called
+  start(interval = new TimeSpan(1, "h")) {
+    if (this.timer != null) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), interval.milliseconds());
+  }
+
+  stop() {
+    if (this.timer != null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  [Symbol.dispose]() {
+    this.stop();
+  }
+
+  private async tick() {
+    try {
+      await this.purge();
+    } catch (error) {
+      console.error("Error purging deleted accounts", error);
+    }
+  }
+}
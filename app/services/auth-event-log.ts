@@ -0,0 +1,54 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+
+import * as schema from "../../db/schema";
+import type { getDrizzle } from "../db";
+import type {
+  AuthEvent,
+  AuthEventLoggerInterface,
+  AuthEventQuery,
+} from "../lib/types";
+
+// Writes events to the append-only `auth_event` table
+export class AuthEventLog implements AuthEventLoggerInterface {
+  constructor(private readonly drizzle: ReturnType<typeof getDrizzle>) {}
+
+  async log({
+    type,
+    userId,
+    client,
+    detail,
+  }: Parameters<AuthEventLoggerInterface["log"]>[0]): Promise<void> {
+    try {
+      await this.drizzle.insert(schema.authEvents).values({
+        type,
+        userId,
+        ipAddress: client?.ipAddress ?? null,
+        userAgent: client?.userAgent ?? null,
+        detail: detail ?? null,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`Error logging ${type} event`, error);
+    }
+  }
+
+  list({
+    userId,
+    types,
+    limit = 50,
+    offset = 0,
+  }: AuthEventQuery): Promise<AuthEvent[]> {
+    return this.drizzle
+      .select()
+      .from(schema.authEvents)
+      .where(
+        and(
+          userId != null ? eq(schema.authEvents.userId, userId) : undefined,
+          types?.length ? inArray(schema.authEvents.type, types) : undefined
+        )
+      )
+      .orderBy(desc(schema.authEvents.id))
+      .limit(limit)
+      .offset(offset);
+  }
+}
@@ -1,27 +1,192 @@
-import { eq } from "drizzle-orm";
+import {
+  type SQL,
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  lt,
+  ne,
+  sql,
+} from "drizzle-orm";
 import { BunSQLiteAdapter } from "@lucia-auth/adapter-sqlite";
-import { Lucia, generateIdFromEntropySize } from "lucia";
+import {
+  type DatabaseSession,
+  type DatabaseUser,
+  Lucia,
+  type Session,
+  generateIdFromEntropySize,
+} from "lucia";
 import { TimeSpan, createDate } from "oslo";
-import { alphabet, generateRandomString } from "oslo/crypto";
-import type Database from "bun:sqlite";
+import { alphabet, constantTimeEqual, generateRandomString } from "oslo/crypto";
+import {
+  base64url,
+  decodeHex,
+  encodeBase32,
+  encodeHex,
+} from "oslo/encoding";
+import { TOTPController, createTOTPKeyURI } from "oslo/otp";
+import { WebAuthnController } from "oslo/webauthn";
+import { type Database, SQLiteError } from "bun:sqlite";
 
 import * as schema from "../../db/schema";
-import { getDrizzle } from "../db";
+import { type Transaction, getDrizzle } from "../db";
+import { rolesGrant } from "../lib/permissions";
+import {
+  digitsField,
+  emailField,
+  requiredField,
+  tokenField,
+  twoFactorCodeField,
+  validate,
+} from "../lib/validation";
+import { AccountPurger } from "./account-purger";
+import { AuthEventLog } from "./auth-event-log";
+import { EmailOutbox, type OutboxEmail } from "./email-outbox";
+import { PasswordPolicy } from "./password-policy";
+import {
+  RateLimiter,
+  emailCodePolicy,
+  loginPolicy,
+  resetPasswordRequestPolicy,
+  twoFactorPolicy,
+} from "./rate-limiter";
 
 import type {
   AsyncResult,
+  ActiveSession,
+  AuthEvent,
+  AuthEventLoggerInterface,
+  AuthEventQuery,
   AuthServiceInterface,
   EmailServiceInterface,
+  FieldErrors,
+  ManagedUser,
+  OAuthProfile,
+  PasskeyAuthenticationResponse,
+  PasskeyRegistrationResponse,
+  Permission,
+  RetryAfter,
+  Role,
+  SessionClient,
   User,
+  UserList,
+  UserListQuery,
+  WeakPassword,
 } from "../lib/types";
 
+const TOTP_ISSUER = "Remix Bun";
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong guesses an email code survives before it's deleted
+const EMAIL_CODE_MAX_ATTEMPTS = 5;
+// Minimum time between two codes for the same user, so the resend button
+// can't be used to flood an inbox
+const EMAIL_CODE_RESEND_COOLDOWN = new TimeSpan(1, "m");
+
+const totpController = new TOTPController();
+
+// How stale `last_seen_at` may get before a request refreshes it, so most
+// requests don't write to the database
+const LAST_SEEN_PRECISION = new TimeSpan(1, "m");
+
+// Lucia's default, spelled out because `insertSession` writes sessions itself
+const SESSION_EXPIRES_IN = new TimeSpan(30, "d");
+
+// COSE identifier for ECDSA with SHA-256, the algorithm every passkey supports
+const COSE_ALGORITHM_ES256 = -7;
+
+function hashToken(token: string): string {
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(token);
+  return hasher.digest("hex");
+}
+
+// Browsers send unpadded base64url, anything else is a malformed response
+function decodeBase64url(value: string): Uint8Array | null {
+  try {
+    return base64url.decode(value, { strict: false });
+  } catch {
+    return null;
+  }
+}
+
+function readClientDataChallenge(clientDataJSON: Uint8Array): string | null {
+  try {
+    const clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+    return typeof clientData?.challenge === "string"
+      ? clientData.challenge
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Disabled by an admin, or deleted by its owner and waiting to be purged
+function isAccountDisabled(
+  user: Pick<schema.User, "disabledAt" | "deletedAt">
+): boolean {
+  return user.disabledAt != null || user.deletedAt != null;
+}
+
+// An insert or update that hit a unique index
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof SQLiteError && error.code === "SQLITE_CONSTRAINT_UNIQUE"
+  );
+}
+
+// The UV bit of the flags byte that follows the 32 byte RP id hash
+function isUserVerified(authenticatorData: Uint8Array): boolean {
+  return (authenticatorData[32] & 0x04) !== 0;
+}
+
+// Bytes 33-36 of the authenticator data hold the big-endian signature counter
+function readSignCount(authenticatorData: Uint8Array): number {
+  return new DataView(
+    authenticatorData.buffer,
+    authenticatorData.byteOffset
+  ).getUint32(33);
+}
+
+// Adds the user's roles to what Lucia loads with a session, so every
+// validated user carries them
+class RoleAwareAdapter extends BunSQLiteAdapter {
+  constructor(
+    private readonly sqlite: Database,
+    tableNames: { user: string; session: string }
+  ) {
+    super(sqlite, tableNames);
+  }
+
+  async getSessionAndUser(
+    sessionId: string
+  ): Promise<[DatabaseSession | null, DatabaseUser | null]> {
+    const [session, user] = await super.getSessionAndUser(sessionId);
+    if (user == null) {
+      return [session, user];
+    }
+
+    const roles = this.sqlite
+      .query<{ role: Role }, [string]>(
+        "SELECT role FROM user_role WHERE user_id = ?"
+      )
+      .all(user.id)
+      .map((row) => row.role);
+
+    return [session, { ...user, attributes: { ...user.attributes, roles } }];
+  }
+}
+
 function initializeLucia(database: Database) {
-  const adapter = new BunSQLiteAdapter(database, {
+  const adapter = new RoleAwareAdapter(database, {
     user: "user",
     session: "session",
   });
 
   return new Lucia(adapter, {
+    sessionExpiresIn: SESSION_EXPIRES_IN,
     sessionCookie: {
       attributes: {
         secure: true,
@@ -31,35 +196,112 @@ function initializeLucia(database: Database) {
       id,
       email,
       email_verified,
-    }): Pick<schema.User, "id" | "email" | "emailVerified"> => ({
+      disabled_at,
+      deleted_at,
+      roles,
+    }): User => ({
       id,
       email,
       emailVerified: email_verified === 1,
+      disabledAt: disabled_at == null ? null : new Date(disabled_at * 1000),
+      deletedAt: deleted_at == null ? null : new Date(deleted_at * 1000),
+      roles,
+    }),
+    getSessionAttributes: ({
+      user_agent,
+      ip_address,
+      created_at,
+      last_seen_at,
+    }): Pick<
+      schema.Session,
+      "userAgent" | "ipAddress" | "createdAt" | "lastSeenAt"
+    > => ({
+      userAgent: user_agent,
+      ipAddress: ip_address,
+      createdAt: new Date(created_at * 1000),
+      lastSeenAt: new Date(last_seen_at * 1000),
     }),
   });
 }
 
 export class AuthService implements AuthServiceInterface {
   public lucia: ReturnType<typeof initializeLucia>;
+  public readonly emailOutbox: EmailOutbox;
+  public readonly accountPurger: AccountPurger;
   private drizzle: ReturnType<typeof getDrizzle>;
+  private eventLogger: AuthEventLoggerInterface;
+  private loginLimiter: RateLimiter;
+  private emailCodeLimiter: RateLimiter;
+  private resetPasswordRequestLimiter: RateLimiter;
+  private magicLinkRequestLimiter: RateLimiter;
+  private alreadyRegisteredLimiter: RateLimiter;
+  private twoFactorLimiter: RateLimiter;
+  private dummyPasswordHash: Promise<string> | null = null;
 
   constructor(
     database: Database,
-    private readonly emailServiceInterface: EmailServiceInterface
+    emailServiceInterface: EmailServiceInterface,
+    private readonly passwordPolicy = new PasswordPolicy(),
+    // Signing up with this address makes the account an admin
+    private readonly adminEmail: string | null = null,
+    eventLogger?: AuthEventLoggerInterface
   ) {
     this.lucia = initializeLucia(database);
     this.drizzle = getDrizzle(database);
+    this.eventLogger = eventLogger ?? new AuthEventLog(this.drizzle);
+    this.emailOutbox = new EmailOutbox(this.drizzle, emailServiceInterface);
+    this.accountPurger = new AccountPurger(this.drizzle);
+    this.loginLimiter = new RateLimiter(this.drizzle, "login", loginPolicy);
+    this.emailCodeLimiter = new RateLimiter(
+      this.drizzle,
+      "email_code",
+      emailCodePolicy
+    );
+    this.resetPasswordRequestLimiter = new RateLimiter(
+      this.drizzle,
+      "reset_password_request",
+      resetPasswordRequestPolicy
+    );
+    this.magicLinkRequestLimiter = new RateLimiter(
+      this.drizzle,
+      "magic_link_request",
+      resetPasswordRequestPolicy
+    );
+    this.alreadyRegisteredLimiter = new RateLimiter(
+      this.drizzle,
+      "already_registered",
+      resetPasswordRequestPolicy
+    );
+    this.twoFactorLimiter = new RateLimiter(
+      this.drizzle,
+      "two_factor",
+      twoFactorPolicy
+    );
   }
 
   async validateSession(
-    sessionId: string
-  ): AsyncResult<{ user: User; freshSessionId?: string }, "invalid_session"> {
+    sessionId: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { user: User; freshSessionId?: string },
+    "invalid_session" | "account_disabled"
+  > {
     const { session, user } = await this.lucia.validateSession(sessionId);
 
     if (user === null) {
       return { type: "failure", error: "invalid_session" };
     }
 
+    // Disabling ends every session, this catches ones created since
+    if (isAccountDisabled(user)) {
+      await this.lucia.invalidateSession(sessionId);
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    if (client != null && session != null) {
+      await this.recordSessionClient(session, client);
+    }
+
     if (session?.fresh) {
       return { type: "success", data: { user, freshSessionId: session.id } };
     }
@@ -67,62 +309,176 @@ export class AuthService implements AuthServiceInterface {
     return { type: "success", data: { user } };
   }
 
-  async signup({
-    email,
-    password,
-  }: {
-    email: string;
-    password: string;
-  }): AsyncResult<{ sessionId: string }, "user_exists"> {
-    const user = await this.drizzle.query.users.findFirst({
-      where: eq(schema.users.email, email),
-    });
+  async signup(
+    credentials: {
+      email: string;
+      password: string;
+    },
+    client?: SessionClient
+  ): AsyncResult<
+    null,
+    "weak_password" | "validation_error",
+    {
+      weak_password: WeakPassword;
+      validation_error: FieldErrors<"email" | "password">;
+    }
+  > {
+    const input = validate(
+      { email: emailField, password: requiredField("Password") },
+      credentials
+    );
+    if (input.type === "failure") {
+      return input;
+    }
+    const { email, password } = input.data;
 
-    if (user != null) {
-      return { type: "failure", error: "user_exists" };
+    const weakPassword = await this.passwordPolicy.check(password, email);
+    if (weakPassword != null) {
+      return {
+        type: "failure",
+        error: "weak_password",
+        details: weakPassword,
+      };
     }
 
+    // Hashed even when the account exists so both paths take as long
     const passwordHash = await Bun.password.hash(password);
     const userId = generateIdFromEntropySize(10);
-    await this.drizzle.insert(schema.users).values({
-      id: userId,
-      email,
-      passwordHash,
+    const messageId = this.drizzle.transaction((tx) => {
+      const user = tx
+        .insert(schema.users)
+        .values({ id: userId, email, passwordHash })
+        .onConflictDoNothing({ target: schema.users.email })
+        .returning({ id: schema.users.id })
+        .get();
+
+      if (user == null) {
+        return null;
+      }
+
+      this.grantInitialRoles(tx, user.id, email);
+      return this.queueEmailVerificationCode(tx, user.id, email);
     });
 
-    await this.createEmailVerificationCode(userId, email);
+    if (messageId == null) {
+      await this.notifyAlreadyRegistered(email);
+      return { type: "success", data: null };
+    }
 
-    const session = await this.lucia.createSession(userId, {});
-    return {
-      type: "success",
-      data: { sessionId: session.id },
-    };
+    await this.emailOutbox.deliver(messageId);
+    await this.eventLogger.log({ type: "signup", userId, client });
+    return { type: "success", data: null };
+  }
+
+  // Every signup for the address counts, so the form can't be used to flood
+  // the owner's inbox. Past the limit the signup still looks like it worked.
+  private async notifyAlreadyRegistered(email: string): Promise<void> {
+    if ((await this.alreadyRegisteredLimiter.reserve([email])) != null) {
+      return;
+    }
+
+    const messageId = this.drizzle.transaction((tx) =>
+      this.emailOutbox.enqueue(tx, { type: "already_registered", to: email })
+    );
+    await this.emailOutbox.deliver(messageId);
   }
 
-  async login({
-    email,
-    password,
-  }: {
-    email: string;
-    password: string;
-  }): AsyncResult<
+  async login(
+    credentials: {
+      email: string;
+      password: string;
+    },
+    client?: SessionClient
+  ): AsyncResult<
     { sessionId: string },
-    "invalid_credentials" | "user_not_found"
+    | "invalid_credentials"
+    | "account_disabled"
+    | "too_many_attempts"
+    | "two_factor_required"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      two_factor_required: { pendingLoginToken: string };
+      validation_error: FieldErrors<"email" | "password">;
+    }
   > {
+    const input = validate(
+      { email: emailField, password: requiredField("Password") },
+      { email: credentials.email, password: credentials.password }
+    );
+    if (input.type === "failure") {
+      return input;
+    }
+    const { email, password } = input.data;
+
+    const ipKeys = client?.ipAddress ? [`ip:${client.ipAddress}`] : [];
+    const limiterKeys = [`email:${email}`, ...ipKeys];
+
+    // Counted before the slow hash check so parallel guesses can't all get in
+    const retryAfter = await this.loginLimiter.reserve(limiterKeys);
+    if (retryAfter != null) {
+      await this.eventLogger.log({
+        type: "login_failure",
+        userId: null,
+        client,
+        detail: "too_many_attempts",
+      });
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
     const user = await this.drizzle.query.users.findFirst({
       where: eq(schema.users.email, email),
     });
 
-    if (user == null) {
-      return { type: "failure", error: "user_not_found" };
+    // Unknown emails and accounts without a password are checked against a
+    // throwaway hash, so they take as long as a wrong password. No legitimate
+    // password is over the max length, those aren't hashed at all.
+    const passwordHash =
+      user?.passwordHash ?? (await this.getDummyPasswordHash());
+    const isMatch =
+      !this.passwordPolicy.exceedsMaxLength(password) &&
+      (await Bun.password.verify(password, passwordHash));
+    if (user?.passwordHash == null || !isMatch) {
+      await this.eventLogger.log({
+        type: "login_failure",
+        userId: user?.id ?? null,
+        client,
+        detail: "invalid_credentials",
+      });
+      return { type: "failure", error: "invalid_credentials" };
     }
 
-    const isMatch = await Bun.password.verify(password, user.passwordHash);
-    if (isMatch === false) {
-      return { type: "failure", error: "invalid_credentials" };
+    // Only the account is cleared, failures from the same IP against other
+    // accounts still count
+    await this.loginLimiter.reset([`email:${email}`]);
+    await this.loginLimiter.release(ipKeys);
+
+    // Only said once the password is right, so it doesn't reveal the account
+    if (isAccountDisabled(user)) {
+      await this.eventLogger.log({
+        type: "login_failure",
+        userId: user.id,
+        client,
+        detail: "account_disabled",
+      });
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    const pendingLoginToken = await this.startTwoFactorLogin(user.id);
+    if (pendingLoginToken != null) {
+      return {
+        type: "failure",
+        error: "two_factor_required",
+        details: { pendingLoginToken },
+      };
     }
 
-    const session = await this.lucia.createSession(user.id, {});
+    const session = await this.createSession(user.id);
+    await this.recordLogin(user.id, "password", client);
     return {
       type: "success",
       data: {
@@ -131,197 +487,2130 @@ export class AuthService implements AuthServiceInterface {
     };
   }
 
-  async createEmailVerificationCode(
-    userId: string,
-    email: string
-  ): AsyncResult<null, "email_send_error"> {
-    await this.drizzle
-      .delete(schema.emailVerificationCodes)
-      .where(eq(schema.emailVerificationCodes.userId, userId));
+  async loginWithOAuth(
+    {
+      providerId,
+      profile,
+    }: {
+      providerId: string;
+      profile: OAuthProfile;
+    },
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "email_missing"
+    | "email_not_verified"
+    | "account_disabled"
+    | "two_factor_required",
+    { two_factor_required: { pendingLoginToken: string } }
+  > {
+    const userResult = await this.findOrCreateOAuthUser(
+      providerId,
+      profile,
+      client
+    );
+    if (userResult.type === "failure") {
+      return userResult;
+    }
 
-    const code = generateRandomString(8, alphabet("0-9"));
-    await this.drizzle.insert(schema.emailVerificationCodes).values({
-      userId,
-      email,
-      code,
-      expiresAt: createDate(new TimeSpan(15, "m")),
-    });
+    const userId = userResult.data;
 
-    const emailServiceResponse =
-      await this.emailServiceInterface.sendConfirmEmail(email, code);
+    if (await this.refuseDisabledLogin(userId, client)) {
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    const pendingLoginToken = await this.startTwoFactorLogin(userId);
+    if (pendingLoginToken != null) {
+      return {
+        type: "failure",
+        error: "two_factor_required",
+        details: { pendingLoginToken },
+      };
+    }
+
+    const session = await this.createSession(userId);
+    await this.recordLogin(userId, `oauth:${providerId}`, client);
+    return {
+      type: "success",
+      data: { sessionId: session.id },
+    };
+  }
 
-    if (emailServiceResponse.type === "failure") {
-      return { type: "failure", error: "email_send_error" };
+  async createEmailVerificationCode(
+    userId: string,
+    email: string
+  ): AsyncResult<null, "resend_cooldown", { resend_cooldown: RetryAfter }> {
+    const pendingCode =
+      await this.drizzle.query.emailVerificationCodes.findFirst({
+        where: eq(schema.emailVerificationCodes.userId, userId),
+      });
+    if (pendingCode != null) {
+      const retryAfter = new Date(
+        pendingCode.createdAt.getTime() +
+          EMAIL_CODE_RESEND_COOLDOWN.milliseconds()
+      );
+      if (retryAfter.getTime() > Date.now()) {
+        return {
+          type: "failure",
+          error: "resend_cooldown",
+          details: { retryAfter },
+        };
+      }
     }
 
+    const messageId = this.drizzle.transaction((tx) =>
+      this.queueEmailVerificationCode(tx, userId, email)
+    );
+    await this.emailOutbox.deliver(messageId);
+
     return { type: "success", data: null };
   }
 
   async verifyEmailCode(
     user: User,
-    code: string
-  ): AsyncResult<{ sessionId: string }, "invalid_code" | "expired_code"> {
-    const response = await this.checkEmailCode(user, code);
+    code: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_code"
+    | "expired_code"
+    | "attempts_exhausted"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"code">;
+    }
+  > {
+    const input = validate({ code: digitsField("Code", 8) }, { code });
+    if (input.type === "failure") {
+      return input;
+    }
+
+    const retryAfter = await this.emailCodeLimiter.check([user.id]);
+    if (retryAfter != null) {
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
+    const response = await this.checkEmailCode(
+      user.id,
+      input.data.code,
+      user.email
+    );
     if (response === "invalid") {
+      await this.emailCodeLimiter.recordFailure([user.id]);
       return { type: "failure", error: "invalid_code" };
     }
 
+    if (response === "exhausted") {
+      await this.emailCodeLimiter.recordFailure([user.id]);
+      return { type: "failure", error: "attempts_exhausted" };
+    }
+
+    await this.emailCodeLimiter.reset([user.id]);
+
     if (response === "expired") {
       return { type: "failure", error: "expired_code" };
     }
 
-    await this.drizzle
-      .update(schema.users)
-      .set({
-        emailVerified: true,
-      })
-      .where(eq(schema.users.id, user.id));
+    const sessionId = this.drizzle.transaction((tx) => {
+      tx.update(schema.users)
+        .set({
+          emailVerified: true,
+        })
+        .where(eq(schema.users.id, user.id))
+        .run();
 
-    await this.lucia.invalidateUserSessions(user.id);
-    const session = await this.lucia.createSession(user.id, {});
+      return this.replaceSessions(tx, user.id);
+    });
+    await this.eventLogger.log({
+      type: "email_verified",
+      userId: user.id,
+      client,
+    });
 
     return {
       type: "success",
       data: {
-        sessionId: session.id,
+        sessionId,
       },
     };
   }
 
-  async logout(sessionId: string): AsyncResult<null> {
-    try {
-      await this.lucia.invalidateSession(sessionId);
-    } catch (error) {
-      console.error("Error invalidating session", error);
+  async requestEmailChange(
+    user: User,
+    newEmail: string,
+    currentPassword: string,
+    client?: SessionClient
+  ): AsyncResult<
+    null,
+    | "invalid_credentials"
+    | "email_taken"
+    | "resend_cooldown"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      resend_cooldown: RetryAfter;
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"newEmail" | "currentPassword">;
     }
-
-    return { type: "success", data: null };
-  }
-
-  async resetPasswordRequest(
-    domain: string,
-    email: string
-  ): AsyncResult<{ tokenId: string }, "email_not_found" | "email_send_error"> {
-    const user = await this.drizzle.query.users.findFirst({
-      where: eq(schema.users.email, email),
-    });
-
-    if (user == null) {
-      return { type: "failure", error: "email_not_found" };
+  > {
+    const input = validate(
+      { newEmail: emailField, currentPassword: requiredField("Password") },
+      { newEmail, currentPassword }
+    );
+    if (input.type === "failure") {
+      return input;
     }
 
-    const tokenId = await this.createPasswordResetToken(user.id);
+    const passwordResult = await this.confirmPassword(
+      user,
+      input.data.currentPassword,
+      "email_change",
+      client
+    );
+    if (passwordResult.type === "failure") {
+      return passwordResult;
+    }
 
-    const verificationLink = `${domain}/reset-password?token=${tokenId}`;
-    const emailServiceResponse =
-      await this.emailServiceInterface.sendResetPasswordEmail(
-        email,
-        verificationLink
-      );
+    if (await this.isEmailTaken(input.data.newEmail)) {
+      return { type: "failure", error: "email_taken" };
+    }
 
-    if (emailServiceResponse.type === "failure") {
-      return { type: "failure", error: "email_send_error" };
+    // The code is stored against the new address, the user's email only
+    // changes once it's confirmed
+    const result = await this.createEmailVerificationCode(
+      user.id,
+      input.data.newEmail
+    );
+    if (result.type === "success") {
+      await this.eventLogger.log({
+        type: "email_change_requested",
+        userId: user.id,
+        client,
+        detail: input.data.newEmail,
+      });
     }
 
-    return { type: "success", data: { tokenId } };
+    return result;
   }
 
-  async resetPassword(
-    newPassword: string,
-    token: string
-  ): AsyncResult<{ sessionId: string }, "invalid_code" | "code_expired"> {
-    const hasher = new Bun.CryptoHasher("sha256");
-    hasher.update(token);
-    const tokenHash = hasher.digest("hex");
+  async confirmEmailChange(
+    user: User,
+    code: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_code"
+    | "expired_code"
+    | "attempts_exhausted"
+    | "email_taken"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"code">;
+    }
+  > {
+    const input = validate({ code: digitsField("Code", 8) }, { code });
+    if (input.type === "failure") {
+      return input;
+    }
 
-    const passwordResetToken =
-      await this.drizzle.query.passwordResetTokens.findFirst({
-        where: eq(schema.passwordResetTokens.tokenHash, tokenHash),
+    const retryAfter = await this.emailCodeLimiter.check([user.id]);
+    if (retryAfter != null) {
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
+    const pendingCode =
+      await this.drizzle.query.emailVerificationCodes.findFirst({
+        where: eq(schema.emailVerificationCodes.userId, user.id),
       });
 
-    if (passwordResetToken == null) {
+    // A code for the current address belongs to the verify email flow
+    if (pendingCode == null || pendingCode.email === user.email) {
+      await this.emailCodeLimiter.recordFailure([user.id]);
       return { type: "failure", error: "invalid_code" };
     }
 
-    if (passwordResetToken.expiresAt.getTime() < Date.now()) {
-      return { type: "failure", error: "code_expired" };
+    const response = await this.checkEmailCode(
+      user.id,
+      input.data.code,
+      pendingCode.email
+    );
+    if (response === "invalid") {
+      await this.emailCodeLimiter.recordFailure([user.id]);
+      return { type: "failure", error: "invalid_code" };
     }
 
-    await this.lucia.invalidateUserSessions(passwordResetToken.userId);
+    if (response === "exhausted") {
+      await this.emailCodeLimiter.recordFailure([user.id]);
+      return { type: "failure", error: "attempts_exhausted" };
+    }
 
-    const passwordHash = await Bun.password.hash(newPassword);
-    await this.drizzle
-      .update(schema.users)
-      .set({ passwordHash })
-      .where(eq(schema.users.id, passwordResetToken.userId));
+    await this.emailCodeLimiter.reset([user.id]);
 
-    const session = await this.lucia.createSession(
-      passwordResetToken.userId,
-      {}
-    );
+    if (response === "expired") {
+      return { type: "failure", error: "expired_code" };
+    }
+
+    // Someone may have signed up with the address since the code was sent
+    const newEmail = pendingCode.email;
+    if (await this.isEmailTaken(newEmail)) {
+      return { type: "failure", error: "email_taken" };
+    }
+
+    const sessionId = this.drizzle.transaction((tx) => {
+      try {
+        tx.update(schema.users)
+          .set({ email: newEmail, emailVerified: true })
+          .where(eq(schema.users.id, user.id))
+          .run();
+      } catch (error) {
+        // Or claimed between that check and this update
+        if (isUniqueViolation(error)) {
+          return null;
+        }
+        throw error;
+      }
+
+      return this.replaceSessions(tx, user.id);
+    });
+    if (sessionId == null) {
+      return { type: "failure", error: "email_taken" };
+    }
+
+    // The notice goes to the old address
+    await this.notify({ type: "email_changed", to: user.email, newEmail });
+    await this.eventLogger.log({
+      type: "email_verified",
+      userId: user.id,
+      client,
+      detail: "email_change",
+    });
 
     return {
       type: "success",
-      data: { sessionId: session.id },
+      data: { sessionId },
     };
   }
 
-  private async checkEmailCode(
+  async changePassword(
     user: User,
-    code: string
-  ): Promise<"valid" | "expired" | "invalid"> {
-    const emailVerificationCode =
-      await this.drizzle.query.emailVerificationCodes.findFirst({
-        where: eq(schema.emailVerificationCodes.userId, user.id),
-      });
+    currentPassword: string,
+    newPassword: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_credentials"
+    | "too_many_attempts"
+    | "weak_password"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      weak_password: WeakPassword;
+      validation_error: FieldErrors<"currentPassword" | "newPassword">;
+    }
+  > {
+    const input = validate(
+      {
+        currentPassword: requiredField("Password"),
+        newPassword: requiredField("New password"),
+      },
+      { currentPassword, newPassword }
+    );
+    if (input.type === "failure") {
+      return input;
+    }
 
-    if (!emailVerificationCode) {
-      return "invalid";
+    const passwordResult = await this.confirmPassword(
+      user,
+      input.data.currentPassword,
+      "change_password",
+      client
+    );
+    if (passwordResult.type === "failure") {
+      return passwordResult;
     }
 
-    if (code !== emailVerificationCode.code) {
-      return "invalid";
+    const weakPassword = await this.passwordPolicy.check(
+      input.data.newPassword,
+      user.email
+    );
+    if (weakPassword != null) {
+      return {
+        type: "failure",
+        error: "weak_password",
+        details: weakPassword,
+      };
     }
 
-    await this.drizzle
-      .delete(schema.emailVerificationCodes)
-      .where(eq(schema.emailVerificationCodes.id, emailVerificationCode.id));
+    const passwordHash = await Bun.password.hash(input.data.newPassword);
+    const sessionId = this.drizzle.transaction((tx) => {
+      tx.update(schema.users)
+        .set({ passwordHash })
+        .where(eq(schema.users.id, user.id))
+        .run();
 
-    if (emailVerificationCode.expiresAt.getTime() < Date.now()) {
-      return "expired";
-    }
+      // A reset link sent before the change shouldn't be able to undo it
+      tx.delete(schema.passwordResetTokens)
+        .where(eq(schema.passwordResetTokens.userId, user.id))
+        .run();
 
-    if (emailVerificationCode.email !== user.email) {
-      return "expired";
-    }
+      // Anyone else holding a session may be the reason for the change
+      return this.replaceSessions(tx, user.id);
+    });
+    await this.eventLogger.log({
+      type: "password_changed",
+      userId: user.id,
+      client,
+    });
+    await this.notify({ type: "password_changed", to: user.email });
 
-    return "valid";
+    return {
+      type: "success",
+      data: { sessionId },
+    };
   }
 
-  private async createPasswordResetToken(userId: string): Promise<string> {
-    await this.drizzle
-      .delete(schema.passwordResetTokens)
-      .where(eq(schema.passwordResetTokens.userId, userId));
-
-    // 40 character
-    const tokenId = generateIdFromEntropySize(25);
+  async deleteAccount(
+    user: User,
+    password: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { purgeAt: Date },
+    "invalid_credentials" | "too_many_attempts" | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"password">;
+    }
+  > {
+    const input = validate(
+      { password: requiredField("Password") },
+      { password }
+    );
+    if (input.type === "failure") {
+      return input;
+    }
 
-    const hasher = new Bun.CryptoHasher("sha256");
-    hasher.update(tokenId);
-    const tokenHash = hasher.digest("hex");
+    const passwordResult = await this.confirmPassword(
+      user,
+      input.data.password,
+      "delete_account",
+      client
+    );
+    if (passwordResult.type === "failure") {
+      return passwordResult;
+    }
 
-    await this.drizzle.insert(schema.passwordResetTokens).values({
-      tokenHash,
-      userId,
-      expiresAt: createDate(new TimeSpan(2, "h")),
+    const deletedAt = new Date();
+    this.drizzle.transaction((tx) => {
+      tx.update(schema.users)
+        .set({ deletedAt })
+        .where(eq(schema.users.id, user.id))
+        .run();
+      this.revokeAccountAccess(tx, user.id);
+    });
+    await this.eventLogger.log({
+      type: "account_deleted",
+      userId: user.id,
+      client,
     });
 
-    return tokenId;
+    return {
+      type: "success",
+      data: {
+        purgeAt: new Date(
+          deletedAt.getTime() + this.accountPurger.gracePeriod.milliseconds()
+        ),
+      },
+    };
   }
 
-  [Symbol.dispose]() {
-    console.log("disposing AuthService");
-  }
+  async listSessions(
+    user: User,
+    currentSessionId?: string
+  ): AsyncResult<ActiveSession[]> {
+    const sessions = await this.lucia.getUserSessions(user.id);
+
+    return {
+      type: "success",
+      data: sessions
+        .map((session) => ({
+          id: hashToken(session.id),
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          current: session.id === currentSessionId,
+        }))
+        .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()),
+    };
+  }
+
+  async revokeSession(
+    user: User,
+    sessionId: string,
+    client?: SessionClient
+  ): AsyncResult<null, "session_not_found"> {
+    const sessions = await this.lucia.getUserSessions(user.id);
+    const session = sessions.find(
+      (session) => hashToken(session.id) === sessionId
+    );
+
+    if (session == null) {
+      return { type: "failure", error: "session_not_found" };
+    }
+
+    await this.lucia.invalidateSession(session.id);
+    await this.eventLogger.log({
+      type: "session_revoked",
+      userId: user.id,
+      client,
+    });
+    return { type: "success", data: null };
+  }
+
+  async revokeOtherSessions(
+    user: User,
+    currentSessionId: string,
+    client?: SessionClient
+  ): AsyncResult<null> {
+    await this.drizzle
+      .delete(schema.sessions)
+      .where(
+        and(
+          eq(schema.sessions.userId, user.id),
+          ne(schema.sessions.id, currentSessionId)
+        )
+      );
+    await this.eventLogger.log({
+      type: "session_revoked",
+      userId: user.id,
+      client,
+      detail: "others",
+    });
+
+    return { type: "success", data: null };
+  }
+
+  async logout(sessionId: string, client?: SessionClient): AsyncResult<null> {
+    try {
+      const [session] = await this.drizzle
+        .delete(schema.sessions)
+        .where(eq(schema.sessions.id, sessionId))
+        .returning({ userId: schema.sessions.userId });
+
+      if (session != null) {
+        await this.eventLogger.log({
+          type: "logout",
+          userId: session.userId,
+          client,
+        });
+      }
+    } catch (error) {
+      console.error("Error invalidating session", error);
+    }
+
+    return { type: "success", data: null };
+  }
+
+  async requestMagicLink(
+    domain: string,
+    email: string
+  ): AsyncResult<
+    null,
+    "too_many_attempts" | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"email">;
+    }
+  > {
+    const input = validate({ email: emailField }, { email });
+    if (input.type === "failure") {
+      return input;
+    }
+
+    const retryAfter = await this.magicLinkRequestLimiter.check([
+      input.data.email,
+    ]);
+    if (retryAfter != null) {
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
+    await this.magicLinkRequestLimiter.recordFailure([input.data.email]);
+
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.email, input.data.email),
+    });
+
+    // Unknown emails get the same answer, just no email. So do disabled
+    // accounts, which couldn't use the link anyway.
+    if (user == null || isAccountDisabled(user)) {
+      return { type: "success", data: null };
+    }
+
+    const messageId = this.drizzle.transaction((tx) => {
+      const tokenId = this.insertMagicLinkToken(tx, user.id, input.data.email);
+      return this.emailOutbox.enqueue(tx, {
+        type: "magic_link",
+        to: input.data.email,
+        link: `${domain}/magic-link?token=${tokenId}`,
+      });
+    });
+    await this.emailOutbox.deliver(messageId);
+
+    return { type: "success", data: null };
+  }
+
+  async consumeMagicLink(
+    token: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_token"
+    | "expired_token"
+    | "account_disabled"
+    | "two_factor_required"
+    | "validation_error",
+    {
+      two_factor_required: { pendingLoginToken: string };
+      validation_error: FieldErrors<"token">;
+    }
+  > {
+    const input = validate(
+      { token: tokenField("This link is invalid") },
+      { token }
+    );
+    if (input.type === "failure") {
+      return input;
+    }
+
+    // Deleting up front makes the link single use even if two requests race
+    const [magicLinkToken] = await this.drizzle
+      .delete(schema.magicLinkTokens)
+      .where(eq(schema.magicLinkTokens.tokenHash, hashToken(input.data.token)))
+      .returning();
+
+    if (magicLinkToken == null) {
+      return this.loginFailed("invalid_token", null, client);
+    }
+
+    if (magicLinkToken.expiresAt.getTime() < Date.now()) {
+      return this.loginFailed("expired_token", magicLinkToken.userId, client);
+    }
+
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.id, magicLinkToken.userId),
+    });
+
+    // The address changed since the link was sent
+    if (user == null || user.email !== magicLinkToken.email) {
+      return this.loginFailed("invalid_token", user?.id ?? null, client);
+    }
+
+    if (await this.refuseDisabledLogin(user.id, client)) {
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    // Following the link proves the user owns the address
+    if (!user.emailVerified) {
+      this.drizzle.transaction((tx) =>
+        this.claimUnverifiedAccount(tx, user.id, user.email)
+      );
+    }
+
+    const pendingLoginToken = await this.startTwoFactorLogin(user.id);
+    if (pendingLoginToken != null) {
+      return {
+        type: "failure",
+        error: "two_factor_required",
+        details: { pendingLoginToken },
+      };
+    }
+
+    const session = await this.createSession(user.id);
+    await this.recordLogin(user.id, "magic_link", client);
+    return {
+      type: "success",
+      data: { sessionId: session.id },
+    };
+  }
+
+  async resetPasswordRequest(
+    domain: string,
+    email: string,
+    client?: SessionClient
+  ): AsyncResult<
+    null,
+    "too_many_attempts" | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"email">;
+    }
+  > {
+    const input = validate({ email: emailField }, { email });
+    if (input.type === "failure") {
+      return input;
+    }
+
+    const retryAfter = await this.resetPasswordRequestLimiter.check([
+      input.data.email,
+    ]);
+    if (retryAfter != null) {
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
+    // Every request counts, successful or not, so nobody can flood an inbox
+    await this.resetPasswordRequestLimiter.recordFailure([input.data.email]);
+
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.email, input.data.email),
+    });
+
+    // Unknown emails get the same answer, just no email. So do disabled
+    // accounts, which couldn't use the link anyway.
+    if (user == null || isAccountDisabled(user)) {
+      return { type: "success", data: null };
+    }
+
+    const messageId = this.drizzle.transaction((tx) => {
+      const tokenId = this.insertPasswordResetToken(tx, user.id);
+      return this.emailOutbox.enqueue(tx, {
+        type: "reset_password",
+        to: input.data.email,
+        link: `${domain}/reset-password?token=${tokenId}`,
+      });
+    });
+    await this.emailOutbox.deliver(messageId);
+    await this.eventLogger.log({
+      type: "reset_requested",
+      userId: user.id,
+      client,
+    });
+
+    return { type: "success", data: null };
+  }
+
+  async resetPassword(
+    newPassword: string,
+    token: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_code"
+    | "code_expired"
+    | "account_disabled"
+    | "weak_password"
+    | "validation_error",
+    {
+      weak_password: WeakPassword;
+      validation_error: FieldErrors<"newPassword" | "token">;
+    }
+  > {
+    const input = validate(
+      {
+        newPassword: requiredField("Password"),
+        token: tokenField("This reset link is invalid"),
+      },
+      { newPassword, token }
+    );
+    if (input.type === "failure") {
+      return input;
+    }
+
+    const tokenHash = hashToken(input.data.token);
+
+    const passwordResetToken =
+      await this.drizzle.query.passwordResetTokens.findFirst({
+        where: eq(schema.passwordResetTokens.tokenHash, tokenHash),
+      });
+
+    if (passwordResetToken == null) {
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    if (passwordResetToken.expiresAt.getTime() < Date.now()) {
+      return { type: "failure", error: "code_expired" };
+    }
+
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.id, passwordResetToken.userId),
+    });
+
+    if (user == null) {
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    if (isAccountDisabled(user)) {
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    // The token stays valid so the user can pick another password
+    const weakPassword = await this.passwordPolicy.check(
+      input.data.newPassword,
+      user.email
+    );
+    if (weakPassword != null) {
+      return {
+        type: "failure",
+        error: "weak_password",
+        details: weakPassword,
+      };
+    }
+
+    const passwordHash = await Bun.password.hash(input.data.newPassword);
+    const sessionId = this.drizzle.transaction((tx) => {
+      // Whoever deletes the token gets to use it, so a link that's submitted
+      // twice at once still only resets the password once
+      const consumedToken = tx
+        .delete(schema.passwordResetTokens)
+        .where(eq(schema.passwordResetTokens.tokenHash, tokenHash))
+        .returning()
+        .get();
+      if (consumedToken == null) {
+        return null;
+      }
+
+      tx.update(schema.users)
+        .set({ passwordHash })
+        .where(eq(schema.users.id, consumedToken.userId))
+        .run();
+
+      return this.replaceSessions(tx, consumedToken.userId);
+    });
+
+    if (sessionId == null) {
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    await this.eventLogger.log({
+      type: "reset_completed",
+      userId: user.id,
+      client,
+    });
+    await this.notify({ type: "password_changed", to: user.email });
+
+    return {
+      type: "success",
+      data: { sessionId },
+    };
+  }
+
+  // For showing the reset form only when the link still works. Doesn't use
+  // the token up.
+  async validateResetToken(
+    token: string
+  ): AsyncResult<null, "invalid_code" | "code_expired" | "account_disabled"> {
+    // A malformed token is just an invalid one here
+    const input = tokenField("This reset link is invalid")(token);
+    if (input.type === "failure") {
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    const [passwordResetToken] = await this.drizzle
+      .select({
+        expiresAt: schema.passwordResetTokens.expiresAt,
+        disabledAt: schema.users.disabledAt,
+        deletedAt: schema.users.deletedAt,
+      })
+      .from(schema.passwordResetTokens)
+      .innerJoin(
+        schema.users,
+        eq(schema.users.id, schema.passwordResetTokens.userId)
+      )
+      .where(eq(schema.passwordResetTokens.tokenHash, hashToken(input.data)));
+
+    if (passwordResetToken == null) {
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    if (passwordResetToken.expiresAt.getTime() < Date.now()) {
+      return { type: "failure", error: "code_expired" };
+    }
+
+    if (isAccountDisabled(passwordResetToken)) {
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    return { type: "success", data: null };
+  }
+
+  async verifyTwoFactorLogin(
+    pendingLoginToken: string,
+    code: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_token"
+    | "expired_token"
+    | "invalid_code"
+    | "account_disabled"
+    | "too_many_attempts"
+    | "validation_error",
+    {
+      too_many_attempts: RetryAfter;
+      validation_error: FieldErrors<"pendingLoginToken" | "code">;
+    }
+  > {
+    const input = validate(
+      {
+        pendingLoginToken: tokenField(
+          "Your sign in attempt expired, please log in again"
+        ),
+        code: twoFactorCodeField,
+      },
+      { pendingLoginToken, code }
+    );
+    if (input.type === "failure") {
+      return input;
+    }
+
+    const pendingLogin =
+      await this.drizzle.query.pendingTwoFactorLogins.findFirst({
+        where: eq(
+          schema.pendingTwoFactorLogins.tokenHash,
+          hashToken(input.data.pendingLoginToken)
+        ),
+      });
+
+    if (pendingLogin == null) {
+      return { type: "failure", error: "invalid_token" };
+    }
+
+    if (pendingLogin.expiresAt.getTime() < Date.now()) {
+      await this.drizzle
+        .delete(schema.pendingTwoFactorLogins)
+        .where(
+          eq(schema.pendingTwoFactorLogins.tokenHash, pendingLogin.tokenHash)
+        );
+      return { type: "failure", error: "expired_token" };
+    }
+
+    const retryAfter = await this.twoFactorLimiter.reserve([
+      pendingLogin.userId,
+    ]);
+    if (retryAfter != null) {
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
+    const isValid = await this.checkTwoFactorCode(
+      pendingLogin.userId,
+      input.data.code
+    );
+    if (!isValid) {
+      await this.eventLogger.log({
+        type: "login_failure",
+        userId: pendingLogin.userId,
+        client,
+        detail: "invalid_two_factor_code",
+      });
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    await this.twoFactorLimiter.reset([pendingLogin.userId]);
+
+    // Only said once the code is right, like a password login
+    if (await this.refuseDisabledLogin(pendingLogin.userId, client)) {
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    const sessionId = this.drizzle.transaction((tx) => {
+      tx.delete(schema.pendingTwoFactorLogins)
+        .where(
+          eq(schema.pendingTwoFactorLogins.tokenHash, pendingLogin.tokenHash)
+        )
+        .run();
+
+      return this.insertSession(tx, pendingLogin.userId);
+    });
+    await this.recordLogin(pendingLogin.userId, "two_factor", client);
+
+    return {
+      type: "success",
+      data: { sessionId },
+    };
+  }
+
+  async getTwoFactorStatus(user: User): AsyncResult<{ enabled: boolean }> {
+    const totpCredential = await this.drizzle.query.totpCredentials.findFirst({
+      where: eq(schema.totpCredentials.userId, user.id),
+    });
+
+    return {
+      type: "success",
+      data: { enabled: totpCredential?.enabledAt != null },
+    };
+  }
+
+  async beginTwoFactorEnrollment(
+    user: User
+  ): AsyncResult<{ secret: string; uri: string }, "already_enabled"> {
+    const totpCredential = await this.drizzle.query.totpCredentials.findFirst({
+      where: eq(schema.totpCredentials.userId, user.id),
+    });
+
+    if (totpCredential?.enabledAt != null) {
+      return { type: "failure", error: "already_enabled" };
+    }
+
+    const secret = crypto.getRandomValues(new Uint8Array(20));
+    await this.drizzle
+      .insert(schema.totpCredentials)
+      .values({ userId: user.id, secret: encodeHex(secret) })
+      .onConflictDoUpdate({
+        target: schema.totpCredentials.userId,
+        set: { secret: encodeHex(secret) },
+      });
+
+    return {
+      type: "success",
+      data: {
+        // For authenticator apps that can't scan the URI
+        secret: encodeBase32(secret),
+        uri: createTOTPKeyURI(TOTP_ISSUER, user.email, secret),
+      },
+    };
+  }
+
+  async confirmTwoFactorEnrollment(
+    user: User,
+    code: string,
+    client?: SessionClient
+  ): AsyncResult<
+    { recoveryCodes: string[] },
+    "invalid_code" | "not_enrolling" | "validation_error",
+    { validation_error: FieldErrors<"code"> }
+  > {
+    const input = validate({ code: digitsField("Code", 6) }, { code });
+    if (input.type === "failure") {
+      return input;
+    }
+
+    const totpCredential = await this.drizzle.query.totpCredentials.findFirst({
+      where: eq(schema.totpCredentials.userId, user.id),
+    });
+
+    if (totpCredential == null || totpCredential.enabledAt != null) {
+      return { type: "failure", error: "not_enrolling" };
+    }
+
+    const isValid = await totpController.verify(
+      input.data.code,
+      decodeHex(totpCredential.secret)
+    );
+    if (!isValid) {
+      return { type: "failure", error: "invalid_code" };
+    }
+
+    const recoveryCodes = this.drizzle.transaction((tx) => {
+      tx.update(schema.totpCredentials)
+        .set({ enabledAt: new Date() })
+        .where(eq(schema.totpCredentials.id, totpCredential.id))
+        .run();
+
+      return this.replaceRecoveryCodes(tx, user.id);
+    });
+    await this.eventLogger.log({
+      type: "two_factor_enabled",
+      userId: user.id,
+      client,
+    });
+
+    return { type: "success", data: { recoveryCodes } };
+  }
+
+  async createPasskeyRegistrationChallenge(
+    user: User
+  ): AsyncResult<{ challenge: string; excludeCredentialIds: string[] }> {
+    const challenge = await this.createWebAuthnChallenge(user.id);
+    const credentials = await this.drizzle.query.webauthnCredentials.findMany({
+      where: eq(schema.webauthnCredentials.userId, user.id),
+    });
+
+    return {
+      type: "success",
+      data: {
+        challenge,
+        excludeCredentialIds: credentials.map((credential) => credential.id),
+      },
+    };
+  }
+
+  async verifyPasskeyRegistration(
+    user: User,
+    origin: string,
+    response: PasskeyRegistrationResponse,
+    client?: SessionClient
+  ): AsyncResult<
+    null,
+    | "invalid_challenge"
+    | "expired_challenge"
+    | "invalid_response"
+    | "unsupported_algorithm"
+    | "credential_exists"
+  > {
+    if (response.algorithm !== COSE_ALGORITHM_ES256) {
+      return { type: "failure", error: "unsupported_algorithm" };
+    }
+
+    const clientDataJSON = decodeBase64url(response.clientDataJSON);
+    const authenticatorData = decodeBase64url(response.authenticatorData);
+    if (clientDataJSON == null || authenticatorData == null) {
+      return { type: "failure", error: "invalid_response" };
+    }
+
+    const challengeResult = await this.consumeWebAuthnChallenge(
+      clientDataJSON,
+      user.id
+    );
+    if (challengeResult.type === "failure") {
+      return challengeResult;
+    }
+
+    try {
+      await new WebAuthnController(origin).validateAttestationResponse(
+        { clientDataJSON, authenticatorData },
+        challengeResult.data
+      );
+    } catch {
+      return { type: "failure", error: "invalid_response" };
+    }
+
+    // Nothing is inserted when the credential is already registered, even by
+    // a registration racing this one
+    const [credential] = await this.drizzle
+      .insert(schema.webauthnCredentials)
+      .values({
+        id: response.credentialId,
+        userId: user.id,
+        publicKey: response.publicKey,
+        signCount: readSignCount(authenticatorData),
+      })
+      .onConflictDoNothing()
+      .returning({ id: schema.webauthnCredentials.id });
+
+    if (credential == null) {
+      return { type: "failure", error: "credential_exists" };
+    }
+    await this.eventLogger.log({
+      type: "passkey_added",
+      userId: user.id,
+      client,
+    });
+
+    return { type: "success", data: null };
+  }
+
+  async createPasskeyLoginChallenge(): AsyncResult<{ challenge: string }> {
+    const challenge = await this.createWebAuthnChallenge(null);
+    return { type: "success", data: { challenge } };
+  }
+
+  async loginWithPasskey(
+    origin: string,
+    response: PasskeyAuthenticationResponse,
+    client?: SessionClient
+  ): AsyncResult<
+    { sessionId: string },
+    | "invalid_challenge"
+    | "expired_challenge"
+    | "unknown_credential"
+    | "invalid_response"
+    | "user_verification_required"
+    | "counter_regression"
+    | "account_disabled"
+  > {
+    const clientDataJSON = decodeBase64url(response.clientDataJSON);
+    const authenticatorData = decodeBase64url(response.authenticatorData);
+    const signature = decodeBase64url(response.signature);
+    if (
+      clientDataJSON == null ||
+      authenticatorData == null ||
+      signature == null
+    ) {
+      return this.loginFailed("invalid_response", null, client);
+    }
+
+    const challengeResult = await this.consumeWebAuthnChallenge(
+      clientDataJSON,
+      null
+    );
+    if (challengeResult.type === "failure") {
+      return this.loginFailed(challengeResult.error, null, client);
+    }
+
+    const credential = await this.drizzle.query.webauthnCredentials.findFirst({
+      where: eq(schema.webauthnCredentials.id, response.credentialId),
+    });
+
+    if (credential == null) {
+      return this.loginFailed("unknown_credential", null, client);
+    }
+
+    try {
+      await new WebAuthnController(origin).validateAssertionResponse(
+        "ES256",
+        base64url.decode(credential.publicKey, { strict: false }),
+        { clientDataJSON, authenticatorData, signature },
+        challengeResult.data
+      );
+    } catch {
+      return this.loginFailed("invalid_response", credential.userId, client);
+    }
+
+    // A passkey login skips the second factor, so the authenticator must have
+    // checked a PIN or biometric and not only that someone touched it
+    if (!isUserVerified(authenticatorData)) {
+      return this.loginFailed(
+        "user_verification_required",
+        credential.userId,
+        client
+      );
+    }
+
+    // Authenticators that don't implement a counter always report 0. For the
+    // rest, a counter that didn't increase means the key may have been cloned.
+    const signCount = readSignCount(authenticatorData);
+    if (
+      (signCount !== 0 || credential.signCount !== 0) &&
+      signCount <= credential.signCount
+    ) {
+      return this.loginFailed("counter_regression", credential.userId, client);
+    }
+
+    if (await this.refuseDisabledLogin(credential.userId, client)) {
+      return { type: "failure", error: "account_disabled" };
+    }
+
+    const sessionId = this.drizzle.transaction((tx) => {
+      tx.update(schema.webauthnCredentials)
+        .set({ signCount })
+        .where(eq(schema.webauthnCredentials.id, credential.id))
+        .run();
+
+      return this.insertSession(tx, credential.userId);
+    });
+    await this.recordLogin(credential.userId, "passkey", client);
+
+    return {
+      type: "success",
+      data: { sessionId },
+    };
+  }
+
+  private createSession(userId: string) {
+    const now = Math.floor(Date.now() / 1000);
+    return this.lucia.createSession(userId, {
+      user_agent: null,
+      ip_address: null,
+      created_at: now,
+      last_seen_at: now,
+    });
+  }
+
+  // Same row as `createSession`, for use inside a transaction. Returns the
+  // session id.
+  private insertSession(tx: Transaction, userId: string): string {
+    const sessionId = generateIdFromEntropySize(25);
+    tx.insert(schema.sessions)
+      .values({
+        id: sessionId,
+        userId,
+        expiresAt: createDate(SESSION_EXPIRES_IN),
+      })
+      .run();
+
+    return sessionId;
+  }
+
+  // Logs the user out everywhere and back in on this device
+  private replaceSessions(tx: Transaction, userId: string): string {
+    tx.delete(schema.sessions).where(eq(schema.sessions.userId, userId)).run();
+    return this.insertSession(tx, userId);
+  }
+
+  private async recordSessionClient(
+    session: Session,
+    client: SessionClient
+  ): Promise<void> {
+    const isStale =
+      Date.now() - session.lastSeenAt.getTime() >=
+      LAST_SEEN_PRECISION.milliseconds();
+    if (
+      !isStale &&
+      session.userAgent === client.userAgent &&
+      session.ipAddress === client.ipAddress
+    ) {
+      return;
+    }
+
+    await this.drizzle
+      .update(schema.sessions)
+      .set({
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        lastSeenAt: new Date(),
+      })
+      .where(eq(schema.sessions.id, session.id));
+  }
+
+  private async createWebAuthnChallenge(
+    userId: string | null
+  ): Promise<string> {
+    const challenge = base64url.encode(
+      crypto.getRandomValues(new Uint8Array(32)),
+      { includePadding: false }
+    );
+
+    // Abandoned ceremonies never consume their challenge
+    await this.drizzle
+      .delete(schema.webauthnChallenges)
+      .where(lt(schema.webauthnChallenges.expiresAt, new Date()));
+
+    await this.drizzle.insert(schema.webauthnChallenges).values({
+      challenge,
+      userId,
+      expiresAt: createDate(new TimeSpan(5, "m")),
+    });
+
+    return challenge;
+  }
+
+  // Challenges are single use: they're deleted whether or not the ceremony
+  // goes on to succeed
+  private async consumeWebAuthnChallenge(
+    clientDataJSON: Uint8Array,
+    userId: string | null
+  ): AsyncResult<Uint8Array, "invalid_challenge" | "expired_challenge"> {
+    const challenge = readClientDataChallenge(clientDataJSON);
+    const challengeBytes =
+      challenge == null ? null : decodeBase64url(challenge);
+    if (challenge == null || challengeBytes == null) {
+      return { type: "failure", error: "invalid_challenge" };
+    }
+
+    const [storedChallenge] = await this.drizzle
+      .delete(schema.webauthnChallenges)
+      .where(eq(schema.webauthnChallenges.challenge, challenge))
+      .returning();
+
+    if (storedChallenge == null || storedChallenge.userId !== userId) {
+      return { type: "failure", error: "invalid_challenge" };
+    }
+
+    if (storedChallenge.expiresAt.getTime() < Date.now()) {
+      return { type: "failure", error: "expired_challenge" };
+    }
+
+    return { type: "success", data: challengeBytes };
+  }
+
+  private async checkTwoFactorCode(
+    userId: string,
+    code: string
+  ): Promise<boolean> {
+    const totpCredential = await this.drizzle.query.totpCredentials.findFirst({
+      where: and(
+        eq(schema.totpCredentials.userId, userId),
+        isNotNull(schema.totpCredentials.enabledAt)
+      ),
+    });
+
+    if (totpCredential == null) {
+      return false;
+    }
+
+    const isValidTotp = await totpController.verify(
+      code,
+      decodeHex(totpCredential.secret)
+    );
+    if (isValidTotp) {
+      return true;
+    }
+
+    // Recovery codes work only once
+    const codeHash = hashToken(code.trim().toLowerCase());
+    const deletedRecoveryCodes = await this.drizzle
+      .delete(schema.recoveryCodes)
+      .where(
+        and(
+          eq(schema.recoveryCodes.userId, userId),
+          eq(schema.recoveryCodes.codeHash, codeHash)
+        )
+      )
+      .returning();
+
+    return deletedRecoveryCodes.length > 0;
+  }
+
+  private replaceRecoveryCodes(tx: Transaction, userId: string): string[] {
+    tx.delete(schema.recoveryCodes)
+      .where(eq(schema.recoveryCodes.userId, userId))
+      .run();
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRandomString(10, alphabet("a-z", "0-9"))
+    );
+
+    tx.insert(schema.recoveryCodes)
+      .values(
+        recoveryCodes.map((code) => ({
+          userId,
+          codeHash: hashToken(code),
+        }))
+      )
+      .run();
+
+    return recoveryCodes;
+  }
+
+  private async findOrCreateOAuthUser(
+    providerId: string,
+    profile: OAuthProfile,
+    client?: SessionClient
+  ): AsyncResult<
+    string,
+    "email_missing" | "email_not_verified" | "account_disabled"
+  > {
+    const oauthAccount = await this.drizzle.query.oauthAccounts.findFirst({
+      where: and(
+        eq(schema.oauthAccounts.providerId, providerId),
+        eq(schema.oauthAccounts.providerUserId, profile.providerUserId)
+      ),
+    });
+
+    if (oauthAccount != null) {
+      return { type: "success", data: oauthAccount.userId };
+    }
+
+    // Same rules as a typed in address, an unusable one counts as missing
+    const emailResult = emailField(profile.email ?? "");
+    if (emailResult.type === "failure") {
+      return { type: "failure", error: "email_missing" };
+    }
+    const email = emailResult.data;
+
+    const existingUser = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.email, email),
+    });
+
+    if (existingUser != null) {
+      // Linking on an address the provider hasn't verified would let anyone
+      // take over the account
+      if (!profile.emailVerified) {
+        return { type: "failure", error: "email_not_verified" };
+      }
+
+      // Refused before the provider is linked or the account claimed
+      if (await this.refuseDisabledLogin(existingUser.id, client)) {
+        return { type: "failure", error: "account_disabled" };
+      }
+
+      this.drizzle.transaction((tx) => {
+        if (!existingUser.emailVerified) {
+          this.claimUnverifiedAccount(tx, existingUser.id, email);
+        }
+
+        tx.insert(schema.oauthAccounts)
+          .values({
+            providerId,
+            providerUserId: profile.providerUserId,
+            userId: existingUser.id,
+          })
+          .run();
+      });
+
+      return { type: "success", data: existingUser.id };
+    }
+
+    const userId = generateIdFromEntropySize(10);
+    const messageId = this.drizzle.transaction((tx) => {
+      tx.insert(schema.users)
+        .values({
+          id: userId,
+          email,
+          emailVerified: profile.emailVerified,
+          passwordHash: null,
+        })
+        .run();
+      tx.insert(schema.oauthAccounts)
+        .values({
+          providerId,
+          providerUserId: profile.providerUserId,
+          userId,
+        })
+        .run();
+      this.grantInitialRoles(tx, userId, email);
+
+      return profile.emailVerified
+        ? null
+        : this.queueEmailVerificationCode(tx, userId, email);
+    });
+
+    if (messageId != null) {
+      await this.emailOutbox.deliver(messageId);
+    }
+
+    await this.eventLogger.log({
+      type: "signup",
+      userId,
+      client,
+      detail: `oauth:${providerId}`,
+    });
+    return { type: "success", data: userId };
+  }
+
+  // Returns a pending-login token when the user has 2FA enabled, null when a
+  // session can be created right away
+  private async startTwoFactorLogin(userId: string): Promise<string | null> {
+    const totpCredential = await this.drizzle.query.totpCredentials.findFirst({
+      where: and(
+        eq(schema.totpCredentials.userId, userId),
+        isNotNull(schema.totpCredentials.enabledAt)
+      ),
+    });
+
+    if (totpCredential == null) {
+      return null;
+    }
+
+    return this.createPendingTwoFactorLogin(userId);
+  }
+
+  private async createPendingTwoFactorLogin(userId: string): Promise<string> {
+    const token = generateIdFromEntropySize(25);
+
+    await this.drizzle.insert(schema.pendingTwoFactorLogins).values({
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt: createDate(new TimeSpan(10, "m")),
+    });
+
+    return token;
+  }
+
+  // Hash of a random password, made with the same settings as real ones
+  private getDummyPasswordHash(): Promise<string> {
+    this.dummyPasswordHash ??= Bun.password.hash(generateIdFromEntropySize(10));
+    return this.dummyPasswordHash;
+  }
+
+  // For signed in users about to make a sensitive change. Shares the login
+  // bucket so it can't be used to guess the password, and logs failures with
+  // the action they were for.
+  private async confirmPassword(
+    user: User,
+    password: string,
+    action: string,
+    client?: SessionClient
+  ): AsyncResult<
+    null,
+    "invalid_credentials" | "too_many_attempts",
+    { too_many_attempts: RetryAfter }
+  > {
+    const limiterKeys = [`email:${user.email}`];
+    const retryAfter = await this.loginLimiter.reserve(limiterKeys);
+    if (retryAfter != null) {
+      await this.eventLogger.log({
+        type: "password_confirmation_failure",
+        userId: user.id,
+        client,
+        detail: `${action}:too_many_attempts`,
+      });
+      return {
+        type: "failure",
+        error: "too_many_attempts",
+        details: { retryAfter },
+      };
+    }
+
+    if (!(await this.verifyPassword(user.id, password))) {
+      await this.eventLogger.log({
+        type: "password_confirmation_failure",
+        userId: user.id,
+        client,
+        detail: `${action}:invalid_credentials`,
+      });
+      return { type: "failure", error: "invalid_credentials" };
+    }
+
+    await this.loginLimiter.reset(limiterKeys);
+    return { type: "success", data: null };
+  }
+
+  private async verifyPassword(
+    userId: string,
+    password: string
+  ): Promise<boolean> {
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+    });
+
+    // Users without a password (OAuth only) never match
+    return (
+      user?.passwordHash != null &&
+      (await Bun.password.verify(password, user.passwordHash))
+    );
+  }
+
+  private async isEmailTaken(email: string): Promise<boolean> {
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.email, email),
+    });
+
+    return user != null;
+  }
+
+  // `email` is the address the code must have been sent to, so a code for a
+  // previous or pending address can't verify a different one
+  private async checkEmailCode(
+    userId: string,
+    code: string,
+    email: string
+  ): Promise<"valid" | "expired" | "invalid" | "exhausted"> {
+    const emailVerificationCode =
+      await this.drizzle.query.emailVerificationCodes.findFirst({
+        where: eq(schema.emailVerificationCodes.userId, userId),
+      });
+
+    if (!emailVerificationCode) {
+      return "invalid";
+    }
+
+    const encoder = new TextEncoder();
+    const isMatch = constantTimeEqual(
+      encoder.encode(code),
+      encoder.encode(emailVerificationCode.code)
+    );
+    if (!isMatch) {
+      // Counted in SQL so concurrent guesses can't share an attempt
+      const updatedCode = await this.drizzle
+        .update(schema.emailVerificationCodes)
+        .set({ attempts: sql`${schema.emailVerificationCodes.attempts} + 1` })
+        .where(eq(schema.emailVerificationCodes.id, emailVerificationCode.id))
+        .returning({ attempts: schema.emailVerificationCodes.attempts })
+        .get();
+
+      if ((updatedCode?.attempts ?? 0) < EMAIL_CODE_MAX_ATTEMPTS) {
+        return "invalid";
+      }
+
+      await this.drizzle
+        .delete(schema.emailVerificationCodes)
+        .where(eq(schema.emailVerificationCodes.id, emailVerificationCode.id));
+      return "exhausted";
+    }
+
+    await this.drizzle
+      .delete(schema.emailVerificationCodes)
+      .where(eq(schema.emailVerificationCodes.id, emailVerificationCode.id));
+
+    if (emailVerificationCode.expiresAt.getTime() < Date.now()) {
+      return "expired";
+    }
+
+    if (emailVerificationCode.email !== email) {
+      return "expired";
+    }
+
+    return "valid";
+  }
+
+  // Logs a failed login and returns the failure to hand back to the caller
+  private async loginFailed<E extends string>(
+    error: E,
+    userId: string | null,
+    client?: SessionClient
+  ): Promise<{ type: "failure"; error: E }> {
+    await this.eventLogger.log({
+      type: "login_failure",
+      userId,
+      client,
+      detail: error,
+    });
+    return { type: "failure", error };
+  }
+
+  // Disabled and deleted accounts can't log in by any method. Returns true,
+  // after logging the attempt, if the user's login has to be refused.
+  private async refuseDisabledLogin(
+    userId: string,
+    client?: SessionClient
+  ): Promise<boolean> {
+    const user = await this.drizzle.query.users.findFirst({
+      where: eq(schema.users.id, userId),
+    });
+    if (user == null || !isAccountDisabled(user)) {
+      return false;
+    }
+
+    await this.eventLogger.log({
+      type: "login_failure",
+      userId,
+      client,
+      detail: "account_disabled",
+    });
+    return true;
+  }
+
+  // Logs a successful login. The owner is told about logins from a device or
+  // IP the account hasn't used before.
+  private async recordLogin(
+    userId: string,
+    detail: string,
+    client?: SessionClient
+  ) {
+    // Checked first, or this login would already count as seen
+    await this.notifyNewSignIn(userId, client);
+    await this.eventLogger.log({
+      type: "login_success",
+      userId,
+      client,
+      detail,
+    });
+  }
+
+  private async notifyNewSignIn(userId: string, client?: SessionClient) {
+    if (client == null) {
+      return;
+    }
+
+    try {
+      const isLogin = and(
+        eq(schema.authEvents.userId, userId),
+        eq(schema.authEvents.type, "login_success")
+      );
+      const [seen] = await this.drizzle
+        .select({ id: schema.authEvents.id })
+        .from(schema.authEvents)
+        .where(
+          and(
+            isLogin,
+            sql`${schema.authEvents.ipAddress} is ${client.ipAddress}`,
+            sql`${schema.authEvents.userAgent} is ${client.userAgent}`
+          )
+        )
+        .limit(1);
+      if (seen != null) {
+        return;
+      }
+
+      // The first login has nothing to compare against
+      const [login] = await this.drizzle
+        .select({ id: schema.authEvents.id })
+        .from(schema.authEvents)
+        .where(isLogin)
+        .limit(1);
+      if (login == null) {
+        return;
+      }
+
+      const user = await this.drizzle.query.users.findFirst({
+        where: eq(schema.users.id, userId),
+      });
+      if (user == null) {
+        return;
+      }
+
+      await this.notify({
+        type: "new_sign_in",
+        to: user.email,
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+        signedInAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Error checking for a new sign-in", error);
+    }
+  }
+
+  // Security notices are sent once the change is committed, and failing to
+  // queue one is only logged: the change it's about has already happened
+  private async notify(email: OutboxEmail) {
+    try {
+      const messageId = this.drizzle.transaction((tx) =>
+        this.emailOutbox.enqueue(tx, email)
+      );
+      await this.emailOutbox.deliver(messageId);
+    } catch (error) {
+      console.error(`Error sending the ${email.type} notice`, error);
+    }
+  }
+
+  // Replaces any pending code for the user and queues the email, returning
+  // the message id
+  private queueEmailVerificationCode(
+    tx: Transaction,
+    userId: string,
+    email: string
+  ): number {
+    tx.delete(schema.emailVerificationCodes)
+      .where(eq(schema.emailVerificationCodes.userId, userId))
+      .run();
+
+    const code = generateRandomString(8, alphabet("0-9"));
+    tx.insert(schema.emailVerificationCodes)
+      .values({
+        userId,
+        email,
+        code,
+        expiresAt: createDate(new TimeSpan(15, "m")),
+        createdAt: new Date(),
+      })
+      .run();
+
+    return this.emailOutbox.enqueue(tx, {
+      type: "confirm_email",
+      to: email,
+      code,
+    });
+  }
+
+  private insertPasswordResetToken(tx: Transaction, userId: string): string {
+    tx.delete(schema.passwordResetTokens)
+      .where(eq(schema.passwordResetTokens.userId, userId))
+      .run();
+
+    // 40 character
+    const tokenId = generateIdFromEntropySize(25);
+
+    const tokenHash = hashToken(tokenId);
+
+    tx.insert(schema.passwordResetTokens)
+      .values({
+        tokenHash,
+        userId,
+        expiresAt: createDate(new TimeSpan(2, "h")),
+      })
+      .run();
+
+    return tokenId;
+  }
+
+  private insertMagicLinkToken(
+    tx: Transaction,
+    userId: string,
+    email: string
+  ): string {
+    tx.delete(schema.magicLinkTokens)
+      .where(eq(schema.magicLinkTokens.userId, userId))
+      .run();
+
+    const tokenId = generateIdFromEntropySize(25);
+
+    tx.insert(schema.magicLinkTokens)
+      .values({
+        tokenHash: hashToken(tokenId),
+        userId,
+        email,
+        expiresAt: createDate(new TimeSpan(15, "m")),
+      })
+      .run();
+
+    return tokenId;
+  }
+
+  async listUsers({
+    search = "",
+    verified,
+    sort = "newest",
+    page = 1,
+    pageSize = 25,
+  }: UserListQuery): AsyncResult<UserList> {
+    const conditions: SQL[] = [];
+    const term = search.trim().toLowerCase();
+    if (term) {
+      // % and _ in the search are matched literally
+      const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(sql`${schema.users.email} LIKE ${pattern} ESCAPE '\\'`);
+    }
+    if (verified != null) {
+      conditions.push(eq(schema.users.emailVerified, verified));
+    }
+    const where = and(...conditions);
+
+    const { total } = (await this.drizzle
+      .select({ total: sql<number>`count(*)` })
+      .from(schema.users)
+      .where(where)
+      .get()) ?? { total: 0 };
+    const pageCount = Math.max(1, Math.ceil(total / pageSize));
+    const currentPage = Math.min(Math.max(1, Math.floor(page)), pageCount);
+
+    const order = sort === "oldest" ? asc : desc;
+    const rows = await this.drizzle
+      .select({
+        id: schema.users.id,
+        email: schema.users.email,
+        emailVerified: schema.users.emailVerified,
+        createdAt: schema.users.createdAt,
+        disabledAt: schema.users.disabledAt,
+        deletedAt: schema.users.deletedAt,
+      })
+      .from(schema.users)
+      .where(where)
+      .orderBy(order(schema.users.createdAt), order(schema.users.id))
+      .limit(pageSize)
+      .offset((currentPage - 1) * pageSize);
+
+    const roles = await this.findRoles(rows.map((row) => row.id));
+    return {
+      type: "success",
+      data: {
+        users: rows.map((row) => ({ ...row, roles: roles.get(row.id) ?? [] })),
+        total,
+        page: currentPage,
+        pageCount,
+      },
+    };
+  }
+
+  async getManagedUser(
+    userId: string
+  ): AsyncResult<ManagedUser, "user_not_found"> {
+    const user = await this.drizzle.query.users.findFirst({
+      columns: {
+        id: true,
+        email: true,
+        emailVerified: true,
+        createdAt: true,
+        disabledAt: true,
+        deletedAt: true,
+      },
+      where: eq(schema.users.id, userId),
+    });
+    if (user == null) {
+      return { type: "failure", error: "user_not_found" };
+    }
+
+    const roles = await this.findRoles([user.id]);
+    return {
+      type: "success",
+      data: { ...user, roles: roles.get(user.id) ?? [] },
+    };
+  }
+
+  async forceVerifyEmail(
+    userId: string,
+    client?: SessionClient
+  ): AsyncResult<null, "user_not_found"> {
+    const user = this.drizzle.transaction((tx) => {
+      tx.delete(schema.emailVerificationCodes)
+        .where(eq(schema.emailVerificationCodes.userId, userId))
+        .run();
+
+      return tx
+        .update(schema.users)
+        .set({ emailVerified: true })
+        .where(eq(schema.users.id, userId))
+        .returning({ id: schema.users.id })
+        .get();
+    });
+    if (user == null) {
+      return { type: "failure", error: "user_not_found" };
+    }
+
+    await this.eventLogger.log({
+      type: "email_verified",
+      userId,
+      client,
+      detail: "admin",
+    });
+    return { type: "success", data: null };
+  }
+
+  async revokeAllSessions(
+    userId: string,
+    client?: SessionClient
+  ): AsyncResult<null> {
+    await this.lucia.invalidateUserSessions(userId);
+    await this.eventLogger.log({
+      type: "session_revoked",
+      userId,
+      client,
+      detail: "all",
+    });
+    return { type: "success", data: null };
+  }
+
+  async setUserDisabled(
+    userId: string,
+    disabled: boolean,
+    client?: SessionClient
+  ): AsyncResult<null, "user_not_found"> {
+    const user = this.drizzle.transaction((tx) => {
+      if (disabled) {
+        this.revokeAccountAccess(tx, userId);
+      }
+
+      // Disabling an account that already is keeps the original date.
+      // Enabling also takes back a deletion that hasn't been purged yet.
+      return tx
+        .update(schema.users)
+        .set(
+          disabled
+            ? {
+                disabledAt: sql`coalesce(${schema.users.disabledAt}, unixepoch())`,
+              }
+            : { disabledAt: null, deletedAt: null }
+        )
+        .where(eq(schema.users.id, userId))
+        .returning({ id: schema.users.id })
+        .get();
+    });
+    if (user == null) {
+      return { type: "failure", error: "user_not_found" };
+    }
+
+    await this.eventLogger.log({
+      type: disabled ? "account_disabled" : "account_enabled",
+      userId,
+      client,
+    });
+    return { type: "success", data: null };
+  }
+
+  async deleteUser(
+    userId: string,
+    client?: SessionClient
+  ): AsyncResult<null, "user_not_found"> {
+    const [user] = await this.drizzle
+      .delete(schema.users)
+      .where(eq(schema.users.id, userId))
+      .returning({ id: schema.users.id });
+    if (user == null) {
+      return { type: "failure", error: "user_not_found" };
+    }
+
+    await this.eventLogger.log({
+      type: "account_deleted",
+      userId,
+      client,
+      detail: "admin",
+    });
+    return { type: "success", data: null };
+  }
+
+  listAuthEvents(query: AuthEventQuery): Promise<AuthEvent[]> {
+    return this.eventLogger.list(query);
+  }
+
+  hasPermission(user: User, permission: Permission): boolean {
+    return rolesGrant(user.roles, permission);
+  }
+
+  async grantRole(userId: string, role: Role): Promise<void> {
+    await this.drizzle
+      .insert(schema.userRoles)
+      .values({ userId, role })
+      .onConflictDoNothing();
+  }
+
+  private async findRoles(userIds: string[]): Promise<Map<string, Role[]>> {
+    const roles = new Map<string, Role[]>();
+    if (userIds.length === 0) {
+      return roles;
+    }
+
+    const rows = await this.drizzle
+      .select()
+      .from(schema.userRoles)
+      .where(inArray(schema.userRoles.userId, userIds));
+    for (const { userId, role } of rows) {
+      roles.set(userId, [...(roles.get(userId) ?? []), role as Role]);
+    }
+
+    return roles;
+  }
+
+  // Ends the user's sessions and drops the tokens that would start a new one,
+  // for accounts that are being disabled or deleted
+  private revokeAccountAccess(tx: Transaction, userId: string) {
+    for (const table of [
+      schema.sessions,
+      schema.magicLinkTokens,
+      schema.pendingTwoFactorLogins,
+      schema.passwordResetTokens,
+    ]) {
+      tx.delete(table).where(eq(table.userId, userId)).run();
+    }
+  }
+
+  // Whoever signed up with an address they never verified may not be its
+  // owner, so when the owner proves it everything that could let the other
+  // person back in is dropped: sessions, password, second factors, linked
+  // providers, pending codes and tokens, and roles, which are granted again as
+  // if the owner had just signed up
+  private claimUnverifiedAccount(
+    tx: Transaction,
+    userId: string,
+    email: string
+  ) {
+    tx.update(schema.users)
+      .set({ emailVerified: true, passwordHash: null })
+      .where(eq(schema.users.id, userId))
+      .run();
+
+    for (const table of [
+      schema.sessions,
+      schema.totpCredentials,
+      schema.recoveryCodes,
+      schema.pendingTwoFactorLogins,
+      schema.webauthnCredentials,
+      schema.webauthnChallenges,
+      schema.oauthAccounts,
+      schema.emailVerificationCodes,
+      schema.passwordResetTokens,
+      schema.magicLinkTokens,
+      schema.userRoles,
+    ]) {
+      tx.delete(table).where(eq(table.userId, userId)).run();
+    }
+
+    this.grantInitialRoles(tx, userId, email);
+  }
+
+  // The first account, and the one signing up with `adminEmail`, become admins
+  private grantInitialRoles(tx: Transaction, userId: string, email: string) {
+    const { count } = tx
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.users)
+      .get() ?? { count: 0 };
+
+    if (count === 1 || email === this.adminEmail) {
+      tx.insert(schema.userRoles)
+        .values({ userId, role: "admin" })
+        .onConflictDoNothing()
+        .run();
+    }
+  }
+
+  [Symbol.dispose]() {
+    console.log("disposing AuthService");
+    this.emailOutbox[Symbol.dispose]();
+    this.accountPurger[Symbol.dispose]();
+  }
 }
 
 declare module "lucia" {
@@ -331,6 +2620,15 @@ declare module "lucia" {
       id: string;
       email: string;
       email_verified: number;
+      disabled_at: number | null;
+      deleted_at: number | null;
+      roles: Role[];
+    };
+    DatabaseSessionAttributes: {
+      user_agent: string | null;
+      ip_address: string | null;
+      created_at: number;
+      last_seen_at: number;
     };
   }
 }
@@ -0,0 +1,77 @@
+import { TimeSpan } from "oslo";
+
+import type { BreachedPasswordSourceInterface } from "../lib/types";
+
+// Lines look like `<hex>:<count>`, with either the 35 character suffix (range
+// API) or the full 40 character hash (downloadable dumps)
+function parseHashCounts(text: string): [string, number][] {
+  return text
+    .split("\n")
+    .map((line) => line.trim().split(":"))
+    .filter(([hash, count]) => hash && count)
+    .map(([hash, count]) => [hash.toUpperCase(), Number(count)]);
+}
+
+// https://haveibeenpwned.com/API/v3#PwnedPasswords
+export class PwnedPasswordsSource implements BreachedPasswordSourceInterface {
+  constructor(
+    private readonly baseUrl = "https://api.pwnedpasswords.com/range",
+    // Signups and password changes wait on the request, so a hanging API
+    // fails it instead and counts as unreachable
+    private readonly timeout = new TimeSpan(3, "s")
+  ) {}
+
+  async getRange(prefix: string): Promise<Map<string, number>> {
+    // Padding makes every response about the same size, so the prefix can't
+    // be guessed from the traffic
+    const response = await fetch(`${this.baseUrl}/${prefix}`, {
+      headers: { "Add-Padding": "true" },
+      signal: AbortSignal.timeout(this.timeout.milliseconds()),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Pwned Passwords request failed with ${response.status}`);
+    }
+
+    // Padding entries have a count of 0
+    return new Map(
+      parseHashCounts(await response.text()).filter(([, count]) => count > 0)
+    );
+  }
+}
+
+// Offline stand-in reading full SHA-1 hashes from a local file, e.g. a
+// subset of the Pwned Passwords dump. The file is read once, on first use.
+export class FileBreachedPasswordSource
+  implements BreachedPasswordSourceInterface
+{
+  private ranges: Promise<Map<string, Map<string, number>>> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  async getRange(prefix: string): Promise<Map<string, number>> {
+    // A failed load isn't kept, so the next call reads the file again
+    this.ranges ??= this.load().catch((error) => {
+      this.ranges = null;
+      throw error;
+    });
+    const ranges = await this.ranges;
+
+    return ranges.get(prefix.toUpperCase()) ?? new Map();
+  }
+
+  private async load(): Promise<Map<string, Map<string, number>>> {
+    const ranges = new Map<string, Map<string, number>>();
+
+    for (const [hash, count] of parseHashCounts(
+      await Bun.file(this.path).text()
+    )) {
+      const prefix = hash.slice(0, 5);
+      const range = ranges.get(prefix) ?? new Map<string, number>();
+      range.set(hash.slice(5), count);
+      ranges.set(prefix, range);
+    }
+
+    return ranges;
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  type RenderedEmail,
+  alreadyRegistered,
+  confirmEmail,
+  emailChanged,
+  magicLink,
+  newSignIn,
+  passwordChanged,
+  resetPassword,
+} from "../emails/templates";
+import type {
+  AsyncResult,
+  EmailServiceInterface,
+  SignInDetails,
+} from "../lib/types";
+
+export type CapturedEmail = RenderedEmail & {
+  id: number;
+  to: string;
+  sentAt: Date;
+  // What the recipient is meant to act on, if anything
+  code: string | null;
+  link: string | null;
+};
+
+// For development: keeps the latest emails in memory so they can be read at
+// /__dev/mailbox, then passes each one on to `next`, if set. Nothing survives
+// a restart.
+export class DevMailbox implements EmailServiceInterface {
+  private messages: CapturedEmail[] = [];
+  private lastId = 0;
+
+  constructor(
+    private readonly next?: EmailServiceInterface,
+    private readonly limit = 100
+  ) {}
+
+  sendConfirmEmail(
+    email: string,
+    code: string
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, confirmEmail({ code }), { code });
+    return this.forward((next) => next.sendConfirmEmail(email, code));
+  }
+
+  sendResetPasswordEmail(
+    email: string,
+    verificationLink: string
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, resetPassword({ link: verificationLink }), {
+      link: verificationLink,
+    });
+    return this.forward((next) =>
+      next.sendResetPasswordEmail(email, verificationLink)
+    );
+  }
+
+  sendMagicLinkEmail(
+    email: string,
+    magicLinkUrl: string
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, magicLink({ link: magicLinkUrl }), {
+      link: magicLinkUrl,
+    });
+    return this.forward((next) => next.sendMagicLinkEmail(email, magicLinkUrl));
+  }
+
+  sendAlreadyRegisteredEmail(
+    email: string
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, alreadyRegistered(), {});
+    return this.forward((next) => next.sendAlreadyRegisteredEmail(email));
+  }
+
+  sendEmailChangedEmail(
+    email: string,
+    newEmail: string
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, emailChanged({ newEmail }), {});
+    return this.forward((next) => next.sendEmailChangedEmail(email, newEmail));
+  }
+
+  sendPasswordChangedEmail(
+    email: string
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, passwordChanged(), {});
+    return this.forward((next) => next.sendPasswordChangedEmail(email));
+  }
+
+  sendNewSignInEmail(
+    email: string,
+    signIn: SignInDetails
+  ): AsyncResult<null, "email_send_error"> {
+    this.capture(email, newSignIn(signIn), {});
+    return this.forward((next) => next.sendNewSignInEmail(email, signIn));
+  }
+
+  // Newest first
+  list(): CapturedEmail[] {
+    return [...this.messages].reverse();
+  }
+
+  find(id: number): CapturedEmail | null {
+    return this.messages.find((message) => message.id === id) ?? null;
+  }
+
+  clear() {
+    this.messages = [];
+  }
+
+  private capture(
+    to: string,
+    rendered: RenderedEmail,
+    { code, link }: { code?: string; link?: string }
+  ) {
+    this.lastId += 1;
+    this.messages.push({
+      ...rendered,
+      id: this.lastId,
+      to,
+      sentAt: new Date(),
+      code: code ?? null,
+      link: link ?? null,
+    });
+
+    if (this.messages.length > this.limit) {
+      this.messages.shift();
+    }
+  }
+
+  private async forward(
+    send: (next: EmailServiceInterface) => AsyncResult<null, "email_send_error">
+  ): AsyncResult<null, "email_send_error"> {
+    if (this.next == null) {
+      return { type: "success", data: null };
+    }
+
+    return send(this.next);
+  }
+}
@@ -0,0 +1,254 @@
+import { and, asc, desc, eq, lte } from "drizzle-orm";
+import { TimeSpan } from "oslo";
+
+import * as schema from "../../db/schema";
+import type { Transaction, getDrizzle } from "../db";
+import type { AsyncResult, EmailServiceInterface } from "../lib/types";
+
+// Every email the app sends, with what its template needs
+export type OutboxEmail =
+  | { type: "confirm_email"; to: string; code: string }
+  | { type: "reset_password"; to: string; link: string }
+  | { type: "magic_link"; to: string; link: string }
+  | { type: "already_registered"; to: string }
+  | { type: "email_changed"; to: string; newEmail: string }
+  | { type: "password_changed"; to: string }
+  // The payload is stored as JSON, so the time is kept as an ISO string
+  | {
+      type: "new_sign_in";
+      to: string;
+      ipAddress: string | null;
+      userAgent: string | null;
+      signedInAt: string;
+    };
+
+// A queued message as listed for operators. The payload is left out, it holds
+// codes and links.
+export type OutboxEntry = Omit<schema.EmailOutboxMessage, "payload">;
+
+export type OutboxPolicy = {
+  // Attempts after which a message is marked failed
+  maxAttempts: number;
+  // Wait after the first failed attempt, doubled on every further one
+  baseDelay: TimeSpan;
+  // How long a worker holds a message while sending it. If the process dies
+  // mid-send, the message is due again once this runs out.
+  lease: TimeSpan;
+};
+
+// Retries after 30s, 1m, 2m, 4m and 8m, then gives up. Codes and magic links
+// have expired by then anyway.
+export const defaultOutboxPolicy: OutboxPolicy = {
+  maxAttempts: 6,
+  baseDelay: new TimeSpan(30, "s"),
+  lease: new TimeSpan(1, "m"),
+};
+
+// Emails are written to the `email_outbox` table in the same transaction as
+// the code or token they carry, then sent by `deliver` or the worker started
+// with `start`. Sent messages are deleted, failed ones are retried with an
+// exponential backoff and kept as `failed` once `maxAttempts` is reached.
+export class EmailOutbox {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly drizzle: ReturnType<typeof getDrizzle>,
+    private readonly emailService: EmailServiceInterface,
+    private readonly policy: OutboxPolicy = defaultOutboxPolicy
+  ) {}
+
+  // Returns the message id, to `deliver` it once the transaction commits
+  enqueue(tx: Transaction, email: OutboxEmail): number {
+    const { type, to, ...payload } = email;
+    const message = tx
+      .insert(schema.emailOutbox)
+      .values({
+        type,
+        recipient: to,
+        payload: JSON.stringify(payload),
+        nextAttemptAt: new Date(),
+      })
+      .returning({ id: schema.emailOutbox.id })
+      .get();
+
+    return message.id;
+  }
+
+  // Sends the message if it's due and no other worker holds it. A failure
+  // schedules the next attempt instead of being returned.
+  async deliver(id: number): Promise<void> {
+    const now = Date.now();
+
+    // Claiming pushes the next attempt past the lease so nobody else sends it
+    const [message] = await this.drizzle
+      .update(schema.emailOutbox)
+      .set({ nextAttemptAt: new Date(now + this.policy.lease.milliseconds()) })
+      .where(
+        and(
+          eq(schema.emailOutbox.id, id),
+          eq(schema.emailOutbox.status, "pending"),
+          lte(schema.emailOutbox.nextAttemptAt, new Date(now))
+        )
+      )
+      .returning();
+
+    if (message == null) {
+      return;
+    }
+
+    const error = await this.send(message);
+    if (error == null) {
+      await this.drizzle
+        .delete(schema.emailOutbox)
+        .where(eq(schema.emailOutbox.id, id));
+      return;
+    }
+
+    const attempts = message.attempts + 1;
+    if (attempts >= this.policy.maxAttempts) {
+      console.error(`Giving up on email ${id} after ${attempts} attempts`);
+      await this.drizzle
+        .update(schema.emailOutbox)
+        .set({ status: "failed", attempts, lastError: error, payload: null })
+        .where(eq(schema.emailOutbox.id, id));
+      return;
+    }
+
+    const delay = this.policy.baseDelay.milliseconds() * 2 ** (attempts - 1);
+    await this.drizzle
+      .update(schema.emailOutbox)
+      .set({
+        attempts,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + delay),
+      })
+      .where(eq(schema.emailOutbox.id, id));
+  }
+
+  // Sends the messages that are due, oldest first. Returns how many were
+  // attempted.
+  async deliverDue(limit = 50): Promise<number> {
+    const due = await this.drizzle
+      .select({ id: schema.emailOutbox.id })
+      .from(schema.emailOutbox)
+      .where(
+        and(
+          eq(schema.emailOutbox.status, "pending"),
+          lte(schema.emailOutbox.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(asc(schema.emailOutbox.nextAttemptAt))
+      .limit(limit);
+
+    for (const { id } of due) {
+      await this.deliver(id);
+    }
+
+    return due.length;
+  }
+
+  // Newest first
+  list(
+    status: schema.EmailOutboxMessage["status"],
+    { limit = 50, offset = 0 } = {}
+  ): Promise<OutboxEntry[]> {
+    return this.drizzle
+      .select({
+        id: schema.emailOutbox.id,
+        type: schema.emailOutbox.type,
+        recipient: schema.emailOutbox.recipient,
+        status: schema.emailOutbox.status,
+        attempts: schema.emailOutbox.attempts,
+        nextAttemptAt: schema.emailOutbox.nextAttemptAt,
+        lastError: schema.emailOutbox.lastError,
+        createdAt: schema.emailOutbox.createdAt,
+      })
+      .from(schema.emailOutbox)
+      .where(eq(schema.emailOutbox.status, status))
+      .orderBy(desc(schema.emailOutbox.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Polls for due messages until `stop` is called
+  start(interval = new TimeSpan(10, "s")) {
+    if (this.timer != null) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), interval.milliseconds());
+  }
+
+  stop() {
+    if (this.timer != null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  [Symbol.dispose]() {
+    this.stop();
+  }
+
+  private async tick() {
+    // A slow SMTP server can make one tick outlast the interval
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      await this.deliverDue();
+    } catch (error) {
+      console.error("Error delivering emails", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Returns why sending failed, or null once it's sent
+  private async send(
+    message: schema.EmailOutboxMessage
+  ): Promise<string | null> {
+    try {
+      const email = {
+        ...JSON.parse(message.payload ?? "{}"),
+        type: message.type,
+        to: message.recipient,
+      } as OutboxEmail;
+      const result = await this.dispatch(email);
+      return result.type === "failure" ? result.error : null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private dispatch(email: OutboxEmail): AsyncResult<null, "email_send_error"> {
+    switch (email.type) {
+      case "confirm_email":
+        return this.emailService.sendConfirmEmail(email.to, email.code);
+      case "reset_password":
+        return this.emailService.sendResetPasswordEmail(email.to, email.link);
+      case "magic_link":
+        return this.emailService.sendMagicLinkEmail(email.to, email.link);
+      case "already_registered":
+        return this.emailService.sendAlreadyRegisteredEmail(email.to);
+      case "email_changed":
+        return this.emailService.sendEmailChangedEmail(
+          email.to,
+          email.newEmail
+        );
+      case "password_changed":
+        return this.emailService.sendPasswordChangedEmail(email.to);
+      case "new_sign_in":
+        return this.emailService.sendNewSignInEmail(email.to, {
+          ipAddress: email.ipAddress,
+          userAgent: email.userAgent,
+          signedInAt: new Date(email.signedInAt),
+        });
+      default:
+        throw new Error(`Unknown email type ${(email as OutboxEmail).type}`);
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { mkdir } from "node:fs/promises";
+import { type Socket, connect as connectTcp } from "node:net";
+import { join } from "node:path";
+import { connect as connectTls } from "node:tls";
+
+import type { EmailMessage, EmailTransportInterface } from "../lib/types";
+
+// Headers can't carry line breaks, a stray one would start a new header
+function headerValue(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  // RFC 2047 encoded word for anything beyond ASCII
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine).toString("base64")}?=`;
+}
+
+// `Name <address>` or a bare address
+function addressOf(mailbox: string): string {
+  return /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+}
+
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content.replace(/\r?\n/g, "\r\n")).toString(
+    "base64"
+  );
+  return encoded.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+// A multipart/alternative message with CRLF line endings. Both parts are
+// base64 encoded so no line is too long and none starts with a dot.
+export function formatMessage(
+  from: string,
+  message: EmailMessage,
+  date = new Date()
+): string {
+  const boundary = `----=_Part_${crypto.randomUUID()}`;
+  const domain = addressOf(from).split("@")[1] ?? "localhost";
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+export type SmtpTransportOptions = {
+  host: string;
+  port: number;
+  // TLS from the first byte, usually port 465. Otherwise the connection is
+  // upgraded with STARTTLS whenever the server offers it.
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  // Credentials are only sent over TLS unless this is set, e.g. for a relay
+  // on localhost
+  allowInsecureAuth?: boolean;
+  // Sent in EHLO
+  clientName?: string;
+  timeout?: number;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+// One SMTP conversation: writes commands and reads the replies in order
+class SmtpConnection {
+  private buffer = "";
+  private partialReply: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+
+  private constructor(private socket: Socket, public encrypted: boolean) {
+    this.listen();
+  }
+
+  static open(options: SmtpTransportOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.off("error", reject);
+        socket.setTimeout(options.timeout ?? 30_000, () =>
+          socket.destroy(new Error("SMTP connection timed out"))
+        );
+        resolve(new SmtpConnection(socket, options.secure === true));
+      };
+      const socket = options.secure
+        ? connectTls(
+            {
+              host: options.host,
+              port: options.port,
+              servername: options.host,
+            },
+            onConnect
+          )
+        : connectTcp({ host: options.host, port: options.port }, onConnect);
+      socket.once("error", reject);
+    });
+  }
+
+  async command(
+    line: string,
+    expected: number[],
+    // Shown in errors instead of the line, which may hold credentials
+    description = line
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, description);
+  }
+
+  async expect(expected: number[], description: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${description} failed: ${reply.code} ${reply.lines.join(" ")}`
+      );
+    }
+
+    return reply;
+  }
+
+  async startTls(host: string) {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+
+    this.socket = await new Promise((resolve, reject) => {
+      const tlsSocket = connectTls(
+        { socket: this.socket, servername: host },
+        () => {
+          tlsSocket.off("error", reject);
+          resolve(tlsSocket);
+        }
+      );
+      tlsSocket.once("error", reject);
+    });
+    this.encrypted = true;
+    this.listen();
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply != null) {
+      return Promise.resolve(reply);
+    }
+
+    if (this.error != null) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private listen() {
+    this.socket.on("data", (chunk: Buffer) => this.receive(chunk.toString()));
+    this.socket.on("error", (error) => this.fail(error));
+    this.socket.on("close", () =>
+      this.fail(new Error("SMTP connection closed"))
+    );
+  }
+
+  private receive(data: string) {
+    const lines = (this.buffer + data).split("\r\n");
+    this.buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      this.partialReply.push(line.slice(4));
+      // `250-` continues a multi-line reply, `250 ` ends it
+      if (line[3] === "-") {
+        continue;
+      }
+
+      const reply = {
+        code: Number(line.slice(0, 3)),
+        lines: this.partialReply,
+      };
+      this.partialReply = [];
+
+      if (this.waiting != null) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.error ??= error;
+    this.waiting?.reject(this.error);
+    this.waiting = null;
+  }
+}
+
+// Minimal SMTP client, one connection per message. Enough for a relay or a
+// transactional email provider, no pooling or retries.
+export class SmtpTransport implements EmailTransportInterface {
+  constructor(private readonly options: SmtpTransportOptions) {}
+
+  async send(from: string, message: EmailMessage): Promise<void> {
+    const connection = await SmtpConnection.open(this.options);
+
+    try {
+      await connection.expect([220], "greeting");
+      let extensions = await this.hello(connection);
+
+      if (!connection.encrypted && extensions.has("STARTTLS")) {
+        await connection.command("STARTTLS", [220]);
+        await connection.startTls(this.options.host);
+        // Anything learned before the upgrade can't be trusted
+        extensions = await this.hello(connection);
+      }
+
+      if (this.options.user) {
+        await this.authenticate(connection, extensions);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(from)}>`, [250]);
+      await connection.command(
+        `RCPT TO:<${addressOf(message.to)}>`,
+        [250, 251]
+      );
+      await connection.command("DATA", [354]);
+      await connection.command(
+        `${formatMessage(from, message)}.`,
+        [250],
+        "DATA"
+      );
+      await connection.command("QUIT", [221]);
+    } finally {
+      connection.close();
+    }
+  }
+
+  // Returns the extension keywords the server advertises, e.g. STARTTLS
+  private async hello(connection: SmtpConnection): Promise<Set<string>> {
+    const reply = await connection.command(
+      `EHLO ${this.options.clientName ?? "localhost"}`,
+      [250]
+    );
+
+    // The first line is the server's greeting
+    return new Set(reply.lines.slice(1).map((line) => line.toUpperCase()));
+  }
+
+  private async authenticate(
+    connection: SmtpConnection,
+    extensions: Set<string>
+  ) {
+    if (!connection.encrypted && !this.options.allowInsecureAuth) {
+      throw new Error("SMTP server doesn't support TLS, refusing to log in");
+    }
+
+    const { user = "", password = "" } = this.options;
+    const encode = (value: string) => Buffer.from(value).toString("base64");
+
+    // Servers list mechanisms as `AUTH PLAIN LOGIN`
+    const mechanisms = [...extensions]
+      .filter((extension) => extension.startsWith("AUTH "))
+      .flatMap((extension) => extension.split(" ").slice(1));
+
+    if (mechanisms.includes("PLAIN") || !mechanisms.includes("LOGIN")) {
+      await connection.command(
+        `AUTH PLAIN ${encode(`\0${user}\0${password}`)}`,
+        [235],
+        "AUTH PLAIN"
+      );
+      return;
+    }
+
+    await connection.command("AUTH LOGIN", [334]);
+    await connection.command(encode(user), [334], "AUTH LOGIN user");
+    await connection.command(encode(password), [235], "AUTH LOGIN password");
+  }
+}
+
+// For development: writes each message to `directory` as an .eml file any
+// mail client can open, or prints it when no directory is set
+export class DevelopmentTransport implements EmailTransportInterface {
+  constructor(private readonly directory?: string) {}
+
+  async send(from: string, message: EmailMessage): Promise<void> {
+    if (this.directory == null) {
+      console.log(
+        `[email] from=${from} to=${message.to} subject=${message.subject}\n${message.text}`
+      );
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    const path = join(
+      this.directory,
+      `${Date.now()}-${crypto.randomUUID()}.eml`
+    );
+    await Bun.write(path, formatMessage(from, message));
+    console.log(`[email] to=${message.to} saved to ${path}`);
+  }
+}
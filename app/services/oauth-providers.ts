@@ -0,0 +1,139 @@
+import { OAuth2Client, type TokenResponseBody } from "oslo/oauth2";
+
+import type { OAuthProfile, OAuthProviderInterface } from "../lib/types";
+
+export type OAuthProviderConfig = {
+  clientId: string;
+  clientSecret: string;
+  redirectURI: string;
+};
+
+type OIDCProviderOptions = OAuthProviderConfig & {
+  id: string;
+  name: string;
+  authorizeEndpoint: string;
+  tokenEndpoint: string;
+  userInfoEndpoint: string;
+  scopes?: string[];
+};
+
+// Any provider with an OpenID Connect style userinfo endpoint returning `sub`,
+// `email` and `email_verified`.
+export class OIDCProvider implements OAuthProviderInterface {
+  public readonly id: string;
+  public readonly name: string;
+  protected readonly client: OAuth2Client;
+  private readonly clientSecret: string;
+  private readonly userInfoEndpoint: string;
+  private readonly scopes: string[];
+
+  constructor(options: OIDCProviderOptions) {
+    this.id = options.id;
+    this.name = options.name;
+    this.client = new OAuth2Client(
+      options.clientId,
+      options.authorizeEndpoint,
+      options.tokenEndpoint,
+      { redirectURI: options.redirectURI }
+    );
+    this.clientSecret = options.clientSecret;
+    this.userInfoEndpoint = options.userInfoEndpoint;
+    this.scopes = options.scopes ?? ["openid", "email"];
+  }
+
+  createAuthorizationURL(state: string, codeVerifier: string): Promise<URL> {
+    return this.client.createAuthorizationURL({
+      state,
+      codeVerifier,
+      scopes: this.scopes,
+    });
+  }
+
+  async getProfile(code: string, codeVerifier: string): Promise<OAuthProfile> {
+    const tokens = await this.client.validateAuthorizationCode(code, {
+      codeVerifier,
+      credentials: this.clientSecret,
+      authenticateWith: "request_body",
+    });
+
+    return this.fetchProfile(tokens);
+  }
+
+  protected async fetchProfile(
+    tokens: TokenResponseBody
+  ): Promise<OAuthProfile> {
+    const userInfo = await fetchJson<{
+      sub: string;
+      email?: string;
+      email_verified?: boolean;
+    }>(this.userInfoEndpoint, tokens.access_token);
+
+    return {
+      providerUserId: userInfo.sub,
+      email: userInfo.email ?? null,
+      emailVerified: userInfo.email_verified === true,
+    };
+  }
+}
+
+export class GitHubProvider extends OIDCProvider {
+  constructor(config: OAuthProviderConfig) {
+    super({
+      ...config,
+      id: "github",
+      name: "GitHub",
+      authorizeEndpoint: "https://github.com/login/oauth/authorize",
+      tokenEndpoint: "https://github.com/login/oauth/access_token",
+      userInfoEndpoint: "https://api.github.com/user",
+      scopes: ["read:user", "user:email"],
+    });
+  }
+
+  // GitHub isn't OpenID Connect: the id is numeric and the verified email
+  // comes from a separate endpoint
+  protected async fetchProfile(
+    tokens: TokenResponseBody
+  ): Promise<OAuthProfile> {
+    const user = await fetchJson<{ id: number }>(
+      "https://api.github.com/user",
+      tokens.access_token
+    );
+    const emails = await fetchJson<
+      { email: string; primary: boolean; verified: boolean }[]
+    >("https://api.github.com/user/emails", tokens.access_token);
+
+    const primaryEmail = emails.find((email) => email.primary);
+
+    return {
+      providerUserId: String(user.id),
+      email: primaryEmail?.email ?? null,
+      emailVerified: primaryEmail?.verified === true,
+    };
+  }
+}
+
+export function createGoogleProvider(config: OAuthProviderConfig) {
+  return new OIDCProvider({
+    ...config,
+    id: "google",
+    name: "Google",
+    authorizeEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenEndpoint: "https://oauth2.googleapis.com/token",
+    userInfoEndpoint: "https://openidconnect.googleapis.com/v1/userinfo",
+  });
+}
+
+async function fetchJson<T>(url: string, accessToken: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
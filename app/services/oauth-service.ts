@@ -0,0 +1,96 @@
+import { constantTimeEqual } from "oslo/crypto";
+import { generateCodeVerifier, generateState } from "oslo/oauth2";
+
+import type {
+  AsyncResult,
+  OAuthProfile,
+  OAuthProviderInterface,
+} from "../lib/types";
+
+// Runs the authorization code + PKCE dance against the registered providers.
+// What to do with the resulting profile is up to `AuthService.loginWithOAuth`.
+export class OAuthService {
+  private readonly providers: Map<string, OAuthProviderInterface>;
+
+  constructor(providers: OAuthProviderInterface[]) {
+    this.providers = new Map(
+      providers.map((provider) => [provider.id, provider])
+    );
+  }
+
+  listProviders(): { id: string; name: string }[] {
+    return Array.from(this.providers.values(), ({ id, name }) => ({
+      id,
+      name,
+    }));
+  }
+
+  // The caller must keep `state` and `codeVerifier` (e.g. in a cookie) and
+  // hand them back to `validateCallback`
+  async createAuthorization(
+    providerId: string
+  ): AsyncResult<
+    { url: URL; state: string; codeVerifier: string },
+    "unknown_provider"
+  > {
+    const provider = this.providers.get(providerId);
+    if (provider == null) {
+      return { type: "failure", error: "unknown_provider" };
+    }
+
+    const state = generateState();
+    const codeVerifier = generateCodeVerifier();
+    const url = await provider.createAuthorizationURL(state, codeVerifier);
+
+    return { type: "success", data: { url, state, codeVerifier } };
+  }
+
+  async validateCallback(
+    providerId: string,
+    {
+      code,
+      state,
+      storedState,
+      codeVerifier,
+    }: {
+      code: string | null;
+      state: string | null;
+      storedState: string | null;
+      codeVerifier: string | null;
+    }
+  ): AsyncResult<
+    OAuthProfile,
+    "unknown_provider" | "invalid_state" | "oauth_error"
+  > {
+    const provider = this.providers.get(providerId);
+    if (provider == null) {
+      return { type: "failure", error: "unknown_provider" };
+    }
+
+    if (
+      code == null ||
+      state == null ||
+      storedState == null ||
+      codeVerifier == null ||
+      !isSameString(state, storedState)
+    ) {
+      return { type: "failure", error: "invalid_state" };
+    }
+
+    try {
+      const profile = await provider.getProfile(code, codeVerifier);
+      return { type: "success", data: profile };
+    } catch (error) {
+      console.error(`Error completing ${providerId} OAuth login`, error);
+      return { type: "failure", error: "oauth_error" };
+    }
+  }
+}
+
+function isSameString(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const bytesA = encoder.encode(a);
+  const bytesB = encoder.encode(b);
+
+  return bytesA.length === bytesB.length && constantTimeEqual(bytesA, bytesB);
+}
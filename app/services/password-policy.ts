@@ -0,0 +1,101 @@
+import type {
+  BreachedPasswordSourceInterface,
+  WeakPassword,
+  WeakPasswordReason,
+} from "../lib/types";
+
+export type PasswordPolicyOptions = {
+  minLength: number;
+  // Hashing cost grows with the input, so very long passwords are refused
+  // before they reach the hasher
+  maxLength: number;
+};
+
+export const defaultPasswordPolicy: PasswordPolicyOptions = {
+  minLength: 8,
+  maxLength: 128,
+};
+
+// Decides whether a new password is acceptable. The breached password check
+// is optional so the app still works without a source configured.
+export class PasswordPolicy {
+  constructor(
+    private readonly options: PasswordPolicyOptions = defaultPasswordPolicy,
+    private readonly breachedPasswords?: BreachedPasswordSourceInterface
+  ) {}
+
+  // Returns null if the password is acceptable
+  async check(password: string, email: string): Promise<WeakPassword | null> {
+    const reasons: WeakPasswordReason[] = [];
+    const length = [...password].length;
+
+    if (length < this.options.minLength) {
+      reasons.push("too_short");
+    }
+
+    if (length > this.options.maxLength) {
+      reasons.push("too_long");
+    }
+
+    if (containsEmail(password, email)) {
+      reasons.push("contains_email");
+    }
+
+    // Only worth a lookup once everything else passes
+    if (reasons.length === 0 && (await this.isBreached(password))) {
+      reasons.push("breached");
+    }
+
+    if (reasons.length === 0) {
+      return null;
+    }
+
+    return {
+      reasons,
+      minLength: this.options.minLength,
+      maxLength: this.options.maxLength,
+    };
+  }
+
+  // For checking existing passwords, e.g. refusing to hash a huge login
+  // attempt
+  exceedsMaxLength(password: string): boolean {
+    return [...password].length > this.options.maxLength;
+  }
+
+  private async isBreached(password: string): Promise<boolean> {
+    if (this.breachedPasswords == null) {
+      return false;
+    }
+
+    const hash = new Bun.CryptoHasher("sha1")
+      .update(password)
+      .digest("hex")
+      .toUpperCase();
+
+    // An unreachable source shouldn't stop people from signing up
+    try {
+      const range = await this.breachedPasswords.getRange(hash.slice(0, 5));
+      return range.has(hash.slice(5));
+    } catch (error) {
+      console.error("Breached password check failed", error);
+      return false;
+    }
+  }
+}
+
+// The local part alone counts too, "jane.doe" is as guessable as
+// "jane.doe@example.com"
+function containsEmail(password: string, email: string): boolean {
+  const normalizedPassword = password.toLowerCase();
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail) {
+    return false;
+  }
+
+  const [localPart] = normalizedEmail.split("@");
+  return (
+    normalizedPassword.includes(normalizedEmail) ||
+    (localPart.length >= 3 && normalizedPassword.includes(localPart))
+  );
+}
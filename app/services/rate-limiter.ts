@@ -0,0 +1,230 @@
+import { eq, inArray, sql } from "drizzle-orm";
+import { TimeSpan, createDate } from "oslo";
+
+import * as schema from "../../db/schema";
+import type { getDrizzle } from "../db";
+
+export type RateLimitPolicy = {
+  // Failures allowed before any delay kicks in
+  freeAttempts: number;
+  // Wait after the first failure past `freeAttempts`, doubled on every
+  // further failure
+  baseDelay: TimeSpan;
+  // Failures after which the key is locked out for `lockout`
+  maxAttempts: number;
+  lockout: TimeSpan;
+  // Failures older than this are forgotten
+  window: TimeSpan;
+};
+
+export const loginPolicy: RateLimitPolicy = {
+  freeAttempts: 5,
+  baseDelay: new TimeSpan(1, "s"),
+  maxAttempts: 10,
+  lockout: new TimeSpan(15, "m"),
+  window: new TimeSpan(1, "h"),
+};
+
+export const emailCodePolicy: RateLimitPolicy = {
+  freeAttempts: 3,
+  baseDelay: new TimeSpan(5, "s"),
+  maxAttempts: 5,
+  lockout: new TimeSpan(15, "m"),
+  window: new TimeSpan(1, "h"),
+};
+
+export const twoFactorPolicy: RateLimitPolicy = {
+  freeAttempts: 3,
+  baseDelay: new TimeSpan(5, "s"),
+  maxAttempts: 5,
+  lockout: new TimeSpan(15, "m"),
+  window: new TimeSpan(1, "h"),
+};
+
+export const resetPasswordRequestPolicy: RateLimitPolicy = {
+  freeAttempts: 5,
+  baseDelay: new TimeSpan(1, "m"),
+  maxAttempts: 10,
+  lockout: new TimeSpan(1, "h"),
+  window: new TimeSpan(1, "h"),
+};
+
+// Counts failed attempts per key (an email, an IP, a user id...) in SQLite and
+// tells callers when the next attempt is allowed. Keys are namespaced by
+// `scope` so the same email can be tracked by several limiters.
+export class RateLimiter {
+  constructor(
+    private readonly drizzle: ReturnType<typeof getDrizzle>,
+    private readonly scope: string,
+    private readonly policy: RateLimitPolicy
+  ) {}
+
+  // Returns the time the caller has to wait until, or null if any of the keys
+  // can be attempted right now.
+  async check(keys: string[]): Promise<Date | null> {
+    return this.retryAfter(await this.findRows(keys), Date.now());
+  }
+
+  // Counts an attempt as failed before it's made, for checks slow enough that
+  // parallel requests would otherwise all pass `check` before any of them is
+  // recorded. Returns the time to wait until, without counting anything, if a
+  // key is limited. Attempts that turn out fine are taken back with `reset` or
+  // `release`.
+  async reserve(keys: string[]): Promise<Date | null> {
+    // Synchronous, so nothing else can count an attempt in between
+    return this.drizzle.transaction((tx) => {
+      const rows = tx
+        .select()
+        .from(schema.rateLimits)
+        .where(inArray(schema.rateLimits.key, keys.map(this.scopedKey)))
+        .all();
+      const now = Date.now();
+
+      const retryAfter = this.retryAfter(rows, now);
+      if (retryAfter != null) {
+        return retryAfter;
+      }
+
+      for (const key of keys) {
+        const scopedKey = this.scopedKey(key);
+        const row = rows.find((row) => row.key === scopedKey);
+        const lastFailureAt = new Date(now);
+
+        const { failures } = tx
+          .insert(schema.rateLimits)
+          .values({ key: scopedKey, failures: 1, lastFailureAt })
+          .onConflictDoUpdate({
+            target: schema.rateLimits.key,
+            set: {
+              failures:
+                row == null || this.isStale(row, now)
+                  ? 1
+                  : sql`${schema.rateLimits.failures} + 1`,
+              lastFailureAt,
+              lockedUntil: null,
+            },
+          })
+          .returning({ failures: schema.rateLimits.failures })
+          .get();
+
+        if (failures >= this.policy.maxAttempts) {
+          tx.update(schema.rateLimits)
+            .set({ lockedUntil: createDate(this.policy.lockout) })
+            .where(eq(schema.rateLimits.key, scopedKey))
+            .run();
+        }
+      }
+
+      return null;
+    });
+  }
+
+  // Takes back one attempt counted by `reserve`, for keys that shouldn't be
+  // cleared outright, like an IP that other accounts are guessed from
+  async release(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    await this.drizzle
+      .update(schema.rateLimits)
+      .set({
+        failures: sql`max(${schema.rateLimits.failures} - 1, 0)`,
+        lockedUntil: sql`case when ${schema.rateLimits.failures} - 1 >= ${this.policy.maxAttempts} then ${schema.rateLimits.lockedUntil} end`,
+      })
+      .where(inArray(schema.rateLimits.key, keys.map(this.scopedKey)));
+  }
+
+  async recordFailure(keys: string[]): Promise<void> {
+    const rows = await this.findRows(keys);
+    const now = Date.now();
+
+    for (const key of keys) {
+      const scopedKey = this.scopedKey(key);
+      const row = rows.find((row) => row.key === scopedKey);
+      const failures =
+        row == null || this.isStale(row, now) ? 1 : row.failures + 1;
+      const lockedUntil =
+        failures >= this.policy.maxAttempts
+          ? createDate(this.policy.lockout)
+          : null;
+
+      await this.drizzle
+        .insert(schema.rateLimits)
+        .values({
+          key: scopedKey,
+          failures,
+          lastFailureAt: new Date(now),
+          lockedUntil,
+        })
+        .onConflictDoUpdate({
+          target: schema.rateLimits.key,
+          set: { failures, lastFailureAt: new Date(now), lockedUntil },
+        });
+    }
+  }
+
+  async reset(keys: string[]): Promise<void> {
+    await this.drizzle
+      .delete(schema.rateLimits)
+      .where(inArray(schema.rateLimits.key, keys.map(this.scopedKey)));
+  }
+
+  private findRows(keys: string[]) {
+    return this.drizzle.query.rateLimits.findMany({
+      where: inArray(schema.rateLimits.key, keys.map(this.scopedKey)),
+    });
+  }
+
+  // The latest time any of the rows allows an attempt again, or null if they
+  // all do right now
+  private retryAfter(rows: schema.RateLimit[], now: number): Date | null {
+    let retryAfter: Date | null = null;
+    for (const row of rows) {
+      const nextAttemptAt = this.nextAttemptAt(row, now);
+      if (nextAttemptAt == null) {
+        continue;
+      }
+
+      if (retryAfter == null || nextAttemptAt > retryAfter) {
+        retryAfter = nextAttemptAt;
+      }
+    }
+
+    return retryAfter;
+  }
+
+  private nextAttemptAt(row: schema.RateLimit, now: number): Date | null {
+    if (this.isStale(row, now)) {
+      return null;
+    }
+
+    if (row.lockedUntil != null) {
+      return row.lockedUntil;
+    }
+
+    if (row.failures < this.policy.freeAttempts) {
+      return null;
+    }
+
+    const delay =
+      this.policy.baseDelay.milliseconds() *
+      2 ** (row.failures - this.policy.freeAttempts);
+    const nextAttemptAt = row.lastFailureAt.getTime() + delay;
+
+    return nextAttemptAt > now ? new Date(nextAttemptAt) : null;
+  }
+
+  // An expired lockout or an old failure streak starts over from zero
+  private isStale(row: schema.RateLimit, now: number): boolean {
+    if (row.lockedUntil != null) {
+      return row.lockedUntil.getTime() <= now;
+    }
+
+    const windowEnd =
+      row.lastFailureAt.getTime() + this.policy.window.milliseconds();
+    return windowEnd <= now;
+  }
+
+  private scopedKey = (key: string) => `${this.scope}:${key}`;
+}
@@ -0,0 +1,141 @@
+import Database from "bun:sqlite";
+
+import { dbName } from "../db";
+import type {
+  BreachedPasswordSourceInterface,
+  EmailServiceInterface,
+  EmailTransportInterface,
+  OAuthProviderInterface,
+} from "../lib/types";
+import { normalizeEmail } from "../lib/validation";
+import { AuthService } from "./auth-service";
+import { DevMailbox } from "./dev-mailbox";
+import {
+  FileBreachedPasswordSource,
+  PwnedPasswordsSource,
+} from "./breached-passwords";
+import { DevelopmentTransport, SmtpTransport } from "./email-transports";
+import { GitHubProvider, createGoogleProvider } from "./oauth-providers";
+import { OAuthService } from "./oauth-service";
+import { PasswordPolicy, defaultPasswordPolicy } from "./password-policy";
+import { TemplateEmailService } from "./template-email-service";
+
+// Providers are enabled by setting their client id and secret, e.g.
+// GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET
+function oauthProvidersFromEnv(appUrl: string): OAuthProviderInterface[] {
+  const providers: OAuthProviderInterface[] = [];
+
+  const { GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET } = process.env;
+  if (GITHUB_CLIENT_ID && GITHUB_CLIENT_SECRET) {
+    providers.push(
+      new GitHubProvider({
+        clientId: GITHUB_CLIENT_ID,
+        clientSecret: GITHUB_CLIENT_SECRET,
+        redirectURI: `${appUrl}/auth/github/callback`,
+      })
+    );
+  }
+
+  const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET } = process.env;
+  if (GOOGLE_CLIENT_ID && GOOGLE_CLIENT_SECRET) {
+    providers.push(
+      createGoogleProvider({
+        clientId: GOOGLE_CLIENT_ID,
+        clientSecret: GOOGLE_CLIENT_SECRET,
+        redirectURI: `${appUrl}/auth/google/callback`,
+      })
+    );
+  }
+
+  return providers;
+}
+
+// BREACHED_PASSWORDS_FILE points at a local list of SHA-1 hashes to use
+// instead of the Pwned Passwords API, e.g. when working offline
+function breachedPasswordSourceFromEnv(): BreachedPasswordSourceInterface {
+  const { BREACHED_PASSWORDS_FILE } = process.env;
+  if (BREACHED_PASSWORDS_FILE) {
+    return new FileBreachedPasswordSource(BREACHED_PASSWORDS_FILE);
+  }
+
+  return new PwnedPasswordsSource();
+}
+
+// SMTP_HOST turns on delivery, with SMTP_PORT (587), SMTP_SECURE=true for
+// implicit TLS, and SMTP_USER / SMTP_PASSWORD. Without it messages are saved
+// as .eml files in EMAIL_DIR, or printed when that isn't set either.
+function emailTransportFromEnv(): EmailTransportInterface {
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD } =
+    process.env;
+  if (SMTP_HOST) {
+    const secure = SMTP_SECURE === "true";
+    return new SmtpTransport({
+      host: SMTP_HOST,
+      port: Number(SMTP_PORT ?? (secure ? 465 : 587)),
+      secure,
+      user: SMTP_USER,
+      password: SMTP_PASSWORD,
+    });
+  }
+
+  return new DevelopmentTransport(process.env.EMAIL_DIR);
+}
+
+// Owns the process-wide database connection and the services built on top of
+// it. Create it once per process and dispose it on shutdown.
+export class ServiceContainer {
+  public readonly database: Database;
+  // Where the app is served from, e.g. https://example.com. Links in emails
+  // are built from it rather than the request's Host header, which the
+  // client controls.
+  public readonly appUrl: string;
+  public readonly email: EmailServiceInterface;
+  // Only set when asked for, see `devMailbox` in the constructor options
+  public readonly devMailbox: DevMailbox | null;
+  public readonly auth: AuthService;
+  public readonly oauth: OAuthService;
+
+  constructor(
+    filename: string = dbName,
+    {
+      // Keeps every email for /__dev/mailbox, which shows them to anyone
+      // without logging in. Only the Vite dev server turns it on.
+      devMailbox = false,
+    }: { devMailbox?: boolean } = {}
+  ) {
+    this.database = new Database(filename);
+    this.database.exec("PRAGMA foreign_keys = ON;");
+    this.appUrl = new URL(
+      process.env.APP_URL ?? "http://localhost:5173"
+    ).origin;
+
+    const email = new TemplateEmailService(
+      emailTransportFromEnv(),
+      process.env.EMAIL_FROM ?? "Remix Bun <no-reply@localhost>"
+    );
+    this.devMailbox = devMailbox ? new DevMailbox(email) : null;
+    this.email = this.devMailbox ?? email;
+    // ADMIN_EMAIL names the account that becomes an admin when it signs up,
+    // on top of the first account created
+    this.auth = new AuthService(
+      this.database,
+      this.email,
+      new PasswordPolicy(
+        defaultPasswordPolicy,
+        breachedPasswordSourceFromEnv()
+      ),
+      process.env.ADMIN_EMAIL ? normalizeEmail(process.env.ADMIN_EMAIL) : null
+    );
+    // Retries emails that couldn't be sent right away. Stopped by disposing
+    // the auth service.
+    this.auth.emailOutbox.start();
+    // Removes accounts deleted by their owners once the grace period is over
+    this.auth.accountPurger.start();
+    this.oauth = new OAuthService(oauthProvidersFromEnv(this.appUrl));
+  }
+
+  [Symbol.dispose]() {
+    this.auth[Symbol.dispose]();
+    this.database.close();
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  type RenderedEmail,
+  alreadyRegistered,
+  confirmEmail,
+  emailChanged,
+  magicLink,
+  newSignIn,
+  passwordChanged,
+  resetPassword,
+} from "../emails/templates";
+import type {
+  AsyncResult,
+  EmailServiceInterface,
+  EmailTransportInterface,
+  SignInDetails,
+} from "../lib/types";
+
+// Renders every message from the templates in app/emails and hands it to a
+// transport, SMTP in production
+export class TemplateEmailService implements EmailServiceInterface {
+  constructor(
+    private readonly transport: EmailTransportInterface,
+    // e.g. `Remix Bun <no-reply@example.com>`
+    private readonly from: string
+  ) {}
+
+  sendConfirmEmail(
+    email: string,
+    code: string
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, confirmEmail({ code }));
+  }
+
+  sendResetPasswordEmail(
+    email: string,
+    verificationLink: string
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, resetPassword({ link: verificationLink }));
+  }
+
+  sendMagicLinkEmail(
+    email: string,
+    magicLinkUrl: string
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, magicLink({ link: magicLinkUrl }));
+  }
+
+  sendAlreadyRegisteredEmail(
+    email: string
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, alreadyRegistered());
+  }
+
+  sendEmailChangedEmail(
+    email: string,
+    newEmail: string
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, emailChanged({ newEmail }));
+  }
+
+  sendPasswordChangedEmail(
+    email: string
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, passwordChanged());
+  }
+
+  sendNewSignInEmail(
+    email: string,
+    signIn: SignInDetails
+  ): AsyncResult<null, "email_send_error"> {
+    return this.send(email, newSignIn(signIn));
+  }
+
+  private async send(
+    to: string,
+    rendered: RenderedEmail
+  ): AsyncResult<null, "email_send_error"> {
+    try {
+      await this.transport.send(this.from, { to, ...rendered });
+    } catch (error) {
+      console.error("Error sending email", error);
+      return { type: "failure", error: "email_send_error" };
+    }
+
+    return { type: "success", data: null };
+  }
+}
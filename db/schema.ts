@@ -1,16 +1,30 @@
 import { sql } from "drizzle-orm";
-import { text, integer, sqliteTable } from "drizzle-orm/sqlite-core";
+import {
+  text,
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+} from "drizzle-orm/sqlite-core";
 
 export const users = sqliteTable("user", {
   id: text("id").primaryKey(),
-  email: text("email").notNull(),
+  // Stored trimmed and lowercased. The migration also declares the column
+  // COLLATE NOCASE, which drizzle can't express, so lookups ignore case too.
+  email: text("email").notNull().unique(),
   emailVerified: integer("email_verified", { mode: "boolean" })
     .notNull()
     .default(false),
-  passwordHash: text("password_hash").notNull(),
+  // Null for users who only sign in through an OAuth provider
+  passwordHash: text("password_hash"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
+  // Set by an admin. Disabled accounts can't log in and their sessions end.
+  disabledAt: integer("disabled_at", { mode: "timestamp" }),
+  // When the owner asked for the account to be deleted. It's disabled until
+  // the purge job removes it at the end of the grace period.
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
 });
 
 export type User = typeof users.$inferSelect;
@@ -22,11 +36,49 @@ export const sessions = sqliteTable("session", {
   userId: text("user_id")
     .references(() => users.id, { onDelete: "cascade" })
     .notNull(),
+  // Lucia session attributes describing the device, refreshed as the session
+  // is used
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  lastSeenAt: integer("last_seen_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
 });
 
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = typeof sessions.$inferInsert;
 
+// Seeded by the migrations, see `rolePermissions` in app/lib/permissions.ts
+// for what each role grants
+export const roles = sqliteTable("role", {
+  name: text("name").primaryKey(),
+  description: text("description").notNull(),
+});
+
+export type RoleRow = typeof roles.$inferSelect;
+export type InsertRoleRow = typeof roles.$inferInsert;
+
+export const userRoles = sqliteTable(
+  "user_role",
+  {
+    userId: text("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    role: text("role")
+      .references(() => roles.name, { onDelete: "cascade" })
+      .notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.role] }),
+  })
+);
+
+export type UserRole = typeof userRoles.$inferSelect;
+export type InsertUserRole = typeof userRoles.$inferInsert;
+
 export const emailVerificationCodes = sqliteTable("email_verification_code", {
   id: integer("id").primaryKey(),
   code: text("code").notNull(),
@@ -36,6 +88,12 @@ export const emailVerificationCodes = sqliteTable("email_verification_code", {
     .unique(),
   email: text("email").notNull(),
   expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  // Wrong guesses so far, the code is deleted once it reaches the limit
+  attempts: integer("attempts").notNull().default(0),
+  // When the code was sent, for the resend cooldown
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
 });
 
 export type EmailVerificationCode = typeof emailVerificationCodes.$inferSelect;
@@ -53,3 +111,184 @@ export const passwordResetTokens = sqliteTable("password_reset_token", {
 
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+
+export const rateLimits = sqliteTable("rate_limit", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull(),
+  lastFailureAt: integer("last_failure_at", { mode: "timestamp_ms" }).notNull(),
+  lockedUntil: integer("locked_until", { mode: "timestamp_ms" }),
+});
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type InsertRateLimit = typeof rateLimits.$inferInsert;
+
+export const totpCredentials = sqliteTable("totp_credential", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  // Hex encoded TOTP key
+  secret: text("secret").notNull(),
+  // Null until the user confirms the enrollment with a first code
+  enabledAt: integer("enabled_at", { mode: "timestamp" }),
+});
+
+export type TotpCredential = typeof totpCredentials.$inferSelect;
+export type InsertTotpCredential = typeof totpCredentials.$inferInsert;
+
+export const recoveryCodes = sqliteTable("recovery_code", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  codeHash: text("code_hash").notNull(),
+});
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type InsertRecoveryCode = typeof recoveryCodes.$inferInsert;
+
+export const pendingTwoFactorLogins = sqliteTable("pending_two_factor_login", {
+  tokenHash: text("token_hash").primaryKey(),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+});
+
+export type PendingTwoFactorLogin = typeof pendingTwoFactorLogins.$inferSelect;
+export type InsertPendingTwoFactorLogin =
+  typeof pendingTwoFactorLogins.$inferInsert;
+
+export const oauthAccounts = sqliteTable(
+  "oauth_account",
+  {
+    providerId: text("provider_id").notNull(),
+    providerUserId: text("provider_user_id").notNull(),
+    userId: text("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.providerId, table.providerUserId] }),
+  })
+);
+
+export type OAuthAccount = typeof oauthAccounts.$inferSelect;
+export type InsertOAuthAccount = typeof oauthAccounts.$inferInsert;
+
+export const magicLinkTokens = sqliteTable("magic_link_token", {
+  tokenHash: text("token_hash").primaryKey(),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  // The address the link was sent to, which is what gets verified
+  email: text("email").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+});
+
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+export type InsertMagicLinkToken = typeof magicLinkTokens.$inferInsert;
+
+export const webauthnCredentials = sqliteTable("webauthn_credential", {
+  // Base64url encoded credential id, as chosen by the authenticator
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  // Base64url encoded SPKI public key
+  publicKey: text("public_key").notNull(),
+  signCount: integer("sign_count").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export type WebAuthnCredential = typeof webauthnCredentials.$inferSelect;
+export type InsertWebAuthnCredential = typeof webauthnCredentials.$inferInsert;
+
+export const webauthnChallenges = sqliteTable("webauthn_challenge", {
+  // Base64url encoded random challenge
+  challenge: text("challenge").primaryKey(),
+  // Set for registrations, null for logins where the user isn't known yet
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+});
+
+export type WebAuthnChallenge = typeof webauthnChallenges.$inferSelect;
+export type InsertWebAuthnChallenge = typeof webauthnChallenges.$inferInsert;
+
+export const emailOutbox = sqliteTable(
+  "email_outbox",
+  {
+    id: integer("id").primaryKey(),
+    // Which email to send, see `OutboxEmail` in app/services/email-outbox.ts
+    type: text("type").notNull(),
+    recipient: text("recipient").notNull(),
+    // JSON with the email's fields. It holds codes and links, so it's cleared
+    // once a message is given up on.
+    payload: text("payload"),
+    status: text("status", { enum: ["pending", "failed"] })
+      .notNull()
+      .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("next_attempt_at", {
+      mode: "timestamp_ms",
+    }).notNull(),
+    lastError: text("last_error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    dueIdx: index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+  })
+);
+
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+
+// Append-only, triggers in the migration refuse updates and deletes. Rows
+// aren't tied to the user so they outlive the account.
+export const authEvents = sqliteTable(
+  "auth_event",
+  {
+    id: integer("id").primaryKey(),
+    type: text("type", {
+      enum: [
+        "signup",
+        "login_success",
+        "login_failure",
+        "logout",
+        "email_verified",
+        "reset_requested",
+        "reset_completed",
+        "session_revoked",
+        "password_changed",
+        "password_confirmation_failure",
+        "email_change_requested",
+        "account_deleted",
+        "account_disabled",
+        "account_enabled",
+        "two_factor_enabled",
+        "passkey_added",
+      ],
+    }).notNull(),
+    // Null for failed logins to unknown emails
+    userId: text("user_id"),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    // How it happened, e.g. the login method or why it failed
+    detail: text("detail"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    userIdx: index("auth_event_user_idx").on(table.userId, table.id),
+  })
+);
+
+export type AuthEvent = typeof authEvents.$inferSelect;
+export type InsertAuthEvent = typeof authEvents.$inferInsert;
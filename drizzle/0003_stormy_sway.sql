@@ -0,0 +1,23 @@
+CREATE TABLE `oauth_account` (
+	`provider_id` text NOT NULL,
+	`provider_user_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	PRIMARY KEY(`provider_id`, `provider_user_id`),
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+-- SQLite can't drop NOT NULL from a column, so the user table is rebuilt.
+-- Foreign keys must be off (the default for bun:sqlite connections) or
+-- dropping the old table would cascade to every table that references it.
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_user` (
+	`id` text PRIMARY KEY NOT NULL,
+	`email` text NOT NULL,
+	`email_verified` integer DEFAULT false NOT NULL,
+	`password_hash` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_user`(`id`, `email`, `email_verified`, `password_hash`, `created_at`) SELECT `id`, `email`, `email_verified`, `password_hash`, `created_at` FROM `user`;--> statement-breakpoint
+DROP TABLE `user`;--> statement-breakpoint
+ALTER TABLE `__new_user` RENAME TO `user`;
\ No newline at end of file
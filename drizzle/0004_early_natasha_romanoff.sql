@@ -0,0 +1,9 @@
+CREATE TABLE `magic_link_token` (
+	`token_hash` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`email` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `magic_link_token_user_id_unique` ON `magic_link_token` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- SQLite can't add a column with a non-constant default, so the session
+-- table is rebuilt. Existing sessions are stamped with the migration time.
+CREATE TABLE `__new_session` (
+	`id` text PRIMARY KEY NOT NULL,
+	`expires_at` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`user_agent` text,
+	`ip_address` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_seen_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_session`(`id`, `expires_at`, `user_id`) SELECT `id`, `expires_at`, `user_id` FROM `session`;--> statement-breakpoint
+DROP TABLE `session`;--> statement-breakpoint
+ALTER TABLE `__new_session` RENAME TO `session`;
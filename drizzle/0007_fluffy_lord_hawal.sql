@@ -0,0 +1,18 @@
+-- Emails are now normalised before they're stored, and the column compares
+-- case-insensitively so `Jane@test.com` and `jane@test.com` can't both sign
+-- up. SQLite can't change a column's collation, so the user table is rebuilt
+-- like in 0003. If two existing accounts differ only by case the unique index
+-- fails and one of them has to be merged or removed by hand first.
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_user` (
+	`id` text PRIMARY KEY NOT NULL,
+	`email` text NOT NULL COLLATE NOCASE,
+	`email_verified` integer DEFAULT false NOT NULL,
+	`password_hash` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_user`(`id`, `email`, `email_verified`, `password_hash`, `created_at`) SELECT `id`, lower(trim(`email`)), `email_verified`, `password_hash`, `created_at` FROM `user`;--> statement-breakpoint
+DROP TABLE `user`;--> statement-breakpoint
+ALTER TABLE `__new_user` RENAME TO `user`;--> statement-breakpoint
+CREATE UNIQUE INDEX `user_email_unique` ON `user` (`email`);
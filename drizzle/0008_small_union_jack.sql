@@ -0,0 +1,13 @@
+CREATE TABLE `email_outbox` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`recipient` text NOT NULL,
+	`payload` text,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` integer NOT NULL,
+	`last_error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `email_outbox_due_idx` ON `email_outbox` (`status`,`next_attempt_at`);
\ No newline at end of file
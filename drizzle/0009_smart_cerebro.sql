@@ -0,0 +1,18 @@
+-- SQLite can't add a column with a non-constant default, so the
+-- email_verification_code table is rebuilt. Existing codes count as sent at
+-- the migration time.
+CREATE TABLE `__new_email_verification_code` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`code` text NOT NULL,
+	`user_id` text NOT NULL,
+	`email` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_email_verification_code`(`id`, `code`, `user_id`, `email`, `expires_at`) SELECT `id`, `code`, `user_id`, `email`, `expires_at` FROM `email_verification_code`;--> statement-breakpoint
+DROP TABLE `email_verification_code`;--> statement-breakpoint
+ALTER TABLE `__new_email_verification_code` RENAME TO `email_verification_code`;--> statement-breakpoint
+CREATE UNIQUE INDEX `email_verification_code_user_id_unique` ON `email_verification_code` (`user_id`);
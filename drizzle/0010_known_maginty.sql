@@ -0,0 +1,14 @@
+CREATE TABLE `role` (
+	`name` text PRIMARY KEY NOT NULL,
+	`description` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `user_role` (
+	`user_id` text NOT NULL,
+	`role` text NOT NULL,
+	PRIMARY KEY(`role`, `user_id`),
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`role`) REFERENCES `role`(`name`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `role` (`name`, `description`) VALUES ('admin', 'Manages users and reads the audit log');
@@ -0,0 +1 @@
+ALTER TABLE `user` ADD `disabled_at` integer;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `auth_event` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`user_id` text,
+	`ip_address` text,
+	`user_agent` text,
+	`detail` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `auth_event_user_idx` ON `auth_event` (`user_id`,`id`);--> statement-breakpoint
+CREATE TRIGGER `auth_event_no_update` BEFORE UPDATE ON `auth_event` BEGIN SELECT RAISE(ABORT, 'auth_event is append-only'); END;
+--> statement-breakpoint
+CREATE TRIGGER `auth_event_no_delete` BEFORE DELETE ON `auth_event` BEGIN SELECT RAISE(ABORT, 'auth_event is append-only'); END;
@@ -0,0 +1,35 @@
+import type { AppLoadContext } from "@remix-run/node";
+
+import type { EmailServiceInterface } from "./app/lib/types";
+import type { AuthService } from "./app/services/auth-service";
+import type { DevMailbox } from "./app/services/dev-mailbox";
+import type { OAuthService } from "./app/services/oauth-service";
+import type { ServiceContainer } from "./app/services/service-container";
+
+declare module "@remix-run/node" {
+  interface AppLoadContext {
+    // Origin to build links in emails from, see `ServiceContainer.appUrl`
+    appUrl: string;
+    auth: AuthService;
+    email: EmailServiceInterface;
+    // Only in the Vite dev server, see /__dev/mailbox
+    devMailbox: DevMailbox | null;
+    oauth: OAuthService;
+    // IP address of the connecting client, when the server knows it
+    clientAddress: string | null;
+  }
+}
+
+export function getLoadContext(
+  services: ServiceContainer,
+  clientAddress: string | null
+): AppLoadContext {
+  return {
+    appUrl: services.appUrl,
+    auth: services.auth,
+    email: services.email,
+    devMailbox: services.devMailbox,
+    oauth: services.oauth,
+    clientAddress,
+  };
+}
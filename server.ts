@@ -0,0 +1,61 @@
+import path from "node:path";
+import { createRequestHandler, type ServerBuild } from "@remix-run/node";
+
+import { ServiceContainer } from "./app/services/service-container";
+import { getLoadContext } from "./load-context";
+
+const BUILD_DIR = path.resolve("build");
+const CLIENT_DIR = path.join(BUILD_DIR, "client");
+
+const build: ServerBuild = await import(
+  path.join(BUILD_DIR, "server/index.js")
+);
+const handleRequest = createRequestHandler(build, "production");
+
+const services = new ServiceContainer();
+
+async function serveStaticFile(url: URL): Promise<Response | null> {
+  const filePath = path.join(CLIENT_DIR, decodeURIComponent(url.pathname));
+  if (!filePath.startsWith(CLIENT_DIR + path.sep)) {
+    return null;
+  }
+
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    return null;
+  }
+
+  // Vite fingerprints everything under /assets so it can be cached forever
+  const cacheControl = url.pathname.startsWith("/assets/")
+    ? "public, max-age=31536000, immutable"
+    : "public, max-age=3600";
+
+  return new Response(file, { headers: { "Cache-Control": cacheControl } });
+}
+
+const server = Bun.serve({
+  port: Number(process.env.PORT ?? 3000),
+  async fetch(request, server) {
+    const url = new URL(request.url);
+    if (request.method === "GET" || request.method === "HEAD") {
+      const staticResponse = await serveStaticFile(url);
+      if (staticResponse) {
+        return staticResponse;
+      }
+    }
+
+    const clientAddress = server.requestIP(request)?.address ?? null;
+    return handleRequest(request, getLoadContext(services, clientAddress));
+  },
+});
+
+console.log(`Server listening on ${server.url}`);
+
+function shutdown() {
+  server.stop();
+  services[Symbol.dispose]();
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
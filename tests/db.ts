@@ -3,4 +3,6 @@ import { Database } from "bun:sqlite";
 import * as schema from "../db/schema";
 
 export const sqliteTest = new Database(":memory:");
+// As in ServiceContainer, deleting a user relies on the cascades
+sqliteTest.exec("PRAGMA foreign_keys = ON;");
 export const dbTest = drizzle(sqliteTest, { schema });
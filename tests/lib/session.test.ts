@@ -0,0 +1,231 @@
+import { test, expect, describe, afterAll } from "bun:test";
+import invariant from "tiny-invariant";
+import { createDate, TimeSpan } from "oslo";
+import { generateIdFromEntropySize } from "lucia";
+import { eq } from "drizzle-orm";
+import type { AppLoadContext } from "@remix-run/node";
+
+import {
+  getOptionalUser,
+  requirePermission,
+  requireUser,
+  safeRedirect,
+} from "~/lib/session.server";
+import { AuthService } from "~/services/auth-service";
+import { OAuthService } from "~/services/oauth-service";
+import { sqliteTest, dbTest } from "../db";
+import * as schema from "../../db/schema";
+import type { AsyncResult, EmailServiceInterface } from "~/lib/types";
+
+// Users are created directly, so nothing here is ever sent
+class NoopEmailService implements EmailServiceInterface {
+  sendConfirmEmail = () => this.send();
+  sendResetPasswordEmail = () => this.send();
+  sendMagicLinkEmail = () => this.send();
+  sendAlreadyRegisteredEmail = () => this.send();
+  sendEmailChangedEmail = () => this.send();
+  sendPasswordChangedEmail = () => this.send();
+  sendNewSignInEmail = () => this.send();
+
+  private async send(): AsyncResult<null, "email_send_error"> {
+    return { type: "success", data: null };
+  }
+}
+
+const emailService = new NoopEmailService();
+const authService = new AuthService(sqliteTest, emailService);
+const context: AppLoadContext = {
+  appUrl: "https://test.com",
+  auth: authService,
+  email: emailService,
+  devMailbox: null,
+  oauth: new OAuthService([]),
+  clientAddress: null,
+};
+
+const createdUserIds: string[] = [];
+
+// A user with a session, as a login would leave them
+async function createUser({ emailVerified }: { emailVerified: boolean }) {
+  const userId = generateIdFromEntropySize(10);
+  await dbTest.insert(schema.users).values({
+    id: userId,
+    email: `${generateIdFromEntropySize(10)}@test.com`,
+    emailVerified,
+  });
+  createdUserIds.push(userId);
+  const session = await authService.lucia.createSession(userId, {
+    user_agent: null,
+    ip_address: null,
+    created_at: Math.floor(Date.now() / 1000),
+    last_seen_at: Math.floor(Date.now() / 1000),
+  });
+
+  return { userId, sessionId: session.id };
+}
+
+function sessionArgs(sessionId: string | null, url = "https://test.com/") {
+  const headers = new Headers();
+  if (sessionId != null) {
+    headers.set(
+      "Cookie",
+      `${authService.lucia.sessionCookieName}=${sessionId}`
+    );
+  }
+
+  return {
+    request: new Request(url, { headers }),
+    context,
+    response: { status: undefined, headers: new Headers() },
+  };
+}
+
+// The redirect or error response a guard threw
+async function thrownResponse(run: () => Promise<unknown>): Promise<Response> {
+  const thrown = await run().then(
+    () => null,
+    (error: unknown) => error
+  );
+  invariant(thrown instanceof Response);
+  return thrown;
+}
+
+afterAll(async () => {
+  for (const userId of createdUserIds) {
+    await dbTest.delete(schema.users).where(eq(schema.users.id, userId));
+  }
+});
+
+describe("getOptionalUser", () => {
+  test("should return null without a session cookie", async () => {
+    const args = sessionArgs(null);
+
+    expect(await getOptionalUser(args)).toBeNull();
+    expect(args.response.headers.get("Set-Cookie")).toBeNull();
+  });
+
+  test("should return the user of a valid session", async () => {
+    const { userId, sessionId } = await createUser({ emailVerified: true });
+    const args = sessionArgs(sessionId);
+
+    const user = await getOptionalUser(args);
+
+    expect(user?.id).toEqual(userId);
+    // Nothing to refresh on a new session
+    expect(args.response.headers.get("Set-Cookie")).toBeNull();
+  });
+
+  test("should set a fresh cookie when the session is extended", async () => {
+    const { userId, sessionId } = await createUser({ emailVerified: true });
+    // Close enough to expiring that Lucia extends it
+    await dbTest
+      .update(schema.sessions)
+      .set({ expiresAt: createDate(new TimeSpan(1, "h")) })
+      .where(eq(schema.sessions.id, sessionId));
+    const args = sessionArgs(sessionId);
+
+    const user = await getOptionalUser(args);
+
+    expect(user?.id).toEqual(userId);
+    const setCookie = args.response.headers.get("Set-Cookie");
+    expect(setCookie).toStartWith(
+      `${authService.lucia.sessionCookieName}=${sessionId};`
+    );
+  });
+
+  test("should clear the cookie of an invalid session", async () => {
+    const args = sessionArgs(generateIdFromEntropySize(25));
+
+    expect(await getOptionalUser(args)).toBeNull();
+    expect(args.response.headers.get("Set-Cookie")).toStartWith(
+      `${authService.lucia.sessionCookieName}=;`
+    );
+  });
+});
+
+describe("requireUser", () => {
+  test("should redirect to login and back when signed out", async () => {
+    const response = await thrownResponse(() =>
+      requireUser(sessionArgs(null, "https://test.com/account?tab=security"))
+    );
+
+    expect(response.status).toEqual(302);
+    expect(response.headers.get("Location")).toEqual(
+      `/login?redirectTo=${encodeURIComponent("/account?tab=security")}`
+    );
+  });
+
+  test("should redirect to verify-email when requireVerified is set", async () => {
+    const { userId, sessionId } = await createUser({ emailVerified: false });
+
+    const user = await requireUser(sessionArgs(sessionId));
+    expect(user.id).toEqual(userId);
+
+    const response = await thrownResponse(() =>
+      requireUser(sessionArgs(sessionId), { requireVerified: true })
+    );
+    expect(response.status).toEqual(302);
+    expect(response.headers.get("Location")).toEqual("/verify-email");
+  });
+});
+
+describe("requirePermission", () => {
+  test("should return a user one of whose roles grants the permission", async () => {
+    const { userId, sessionId } = await createUser({ emailVerified: true });
+    await authService.grantRole(userId, "admin");
+
+    const user = await requirePermission(sessionArgs(sessionId), "users:read");
+
+    expect(user.id).toEqual(userId);
+  });
+
+  test("should answer 403 without the permission", async () => {
+    const { sessionId } = await createUser({ emailVerified: true });
+
+    const response = await thrownResponse(() =>
+      requirePermission(sessionArgs(sessionId), "users:read")
+    );
+
+    expect(response.status).toEqual(403);
+  });
+
+  test("should refuse an admin whose email isn't verified", async () => {
+    const { userId, sessionId } = await createUser({ emailVerified: false });
+    await authService.grantRole(userId, "admin");
+
+    const response = await thrownResponse(() =>
+      requirePermission(sessionArgs(sessionId), "users:read")
+    );
+
+    expect(response.status).toEqual(302);
+    expect(response.headers.get("Location")).toEqual("/verify-email");
+  });
+});
+
+describe("safeRedirect", () => {
+  test("should keep relative paths", () => {
+    expect(safeRedirect("/account")).toEqual("/account");
+    expect(safeRedirect("/account?tab=security#passkeys")).toEqual(
+      "/account?tab=security#passkeys"
+    );
+  });
+
+  test("should fall back for a missing or absolute target", () => {
+    expect(safeRedirect(null)).toEqual("/");
+    expect(safeRedirect("")).toEqual("/");
+    expect(safeRedirect("https://evil.com")).toEqual("/");
+    expect(safeRedirect("account", "/login")).toEqual("/login");
+  });
+
+  test("should fall back for protocol-relative targets", () => {
+    expect(safeRedirect("//evil.com")).toEqual("/");
+    expect(safeRedirect("/\\evil.com")).toEqual("/");
+    expect(safeRedirect("/\t/evil.com")).toEqual("/");
+    expect(safeRedirect("/\n/evil.com")).toEqual("/");
+  });
+
+  test("should fall back for any backslash in the path", () => {
+    expect(safeRedirect("/account\\..\\\\evil.com")).toEqual("/");
+    expect(safeRedirect("/a\\b")).toEqual("/");
+  });
+});
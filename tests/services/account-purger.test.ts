@@ -0,0 +1,53 @@
+import { test, expect, describe } from "bun:test";
+import { TimeSpan } from "oslo";
+import { generateIdFromEntropySize } from "lucia";
+import { eq } from "drizzle-orm";
+
+import { AccountPurger } from "~/services/account-purger";
+import { dbTest } from "../db";
+import * as schema from "../../db/schema";
+
+const purger = new AccountPurger(dbTest, new TimeSpan(1, "d"));
+
+async function insertUser(deletedAt: Date | null) {
+  const id = generateIdFromEntropySize(10);
+  await dbTest.insert(schema.users).values({
+    id,
+    email: `${id}@test.com`,
+    passwordHash: null,
+    deletedAt,
+  });
+  await dbTest.insert(schema.sessions).values({
+    id: generateIdFromEntropySize(25),
+    userId: id,
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+
+  return id;
+}
+
+function findUser(id: string) {
+  return dbTest.query.users.findFirst({ where: eq(schema.users.id, id) });
+}
+
+describe("AccountPurger", () => {
+  test("purge should only delete accounts past the grace period", async () => {
+    const expired = await insertUser(new Date(Date.now() - 2 * 86_400_000));
+    const recent = await insertUser(new Date(Date.now() - 3_600_000));
+    const active = await insertUser(null);
+
+    const purged = await purger.purge();
+
+    expect(purged).toBeGreaterThanOrEqual(1);
+    expect(await findUser(expired)).toBeUndefined();
+    expect(await findUser(recent)).toBeTruthy();
+    expect(await findUser(active)).toBeTruthy();
+
+    // Their sessions go with them
+    expect(
+      await dbTest.query.sessions.findFirst({
+        where: eq(schema.sessions.userId, expired),
+      })
+    ).toBeUndefined();
+  });
+});
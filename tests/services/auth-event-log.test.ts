@@ -0,0 +1,87 @@
+import { test, expect, describe, spyOn } from "bun:test";
+import { generateIdFromEntropySize } from "lucia";
+import { eq } from "drizzle-orm";
+
+import { AuthEventLog } from "~/services/auth-event-log";
+import { sqliteTest, dbTest } from "../db";
+import * as schema from "../../db/schema";
+
+const eventLog = new AuthEventLog(dbTest);
+const client = { userAgent: "Test Browser", ipAddress: "203.0.113.9" };
+
+describe("AuthEventLog", () => {
+  test("list should filter by user and type, newest first", async () => {
+    const userId = generateIdFromEntropySize(10);
+    await eventLog.log({ type: "signup", userId, client });
+    await eventLog.log({
+      type: "login_failure",
+      userId,
+      client,
+      detail: "invalid_credentials",
+    });
+    await eventLog.log({ type: "login_success", userId, detail: "password" });
+    await eventLog.log({
+      type: "login_success",
+      userId: generateIdFromEntropySize(10),
+    });
+
+    const events = await eventLog.list({ userId });
+    expect(events.map((event) => event.type)).toEqual([
+      "login_success",
+      "login_failure",
+      "signup",
+    ]);
+    expect(events[1]).toMatchObject({
+      userId,
+      ipAddress: "203.0.113.9",
+      userAgent: "Test Browser",
+      detail: "invalid_credentials",
+    });
+    expect(events[0].ipAddress).toBeNull();
+
+    const logins = await eventLog.list({
+      userId,
+      types: ["login_success", "login_failure"],
+    });
+    expect(logins).toHaveLength(2);
+
+    const page = await eventLog.list({ userId, limit: 1, offset: 1 });
+    expect(page.map((event) => event.type)).toEqual(["login_failure"]);
+  });
+
+  test("events should not be changed or deleted", async () => {
+    const userId = generateIdFromEntropySize(10);
+    await eventLog.log({ type: "logout", userId });
+
+    expect(() =>
+      sqliteTest.exec(
+        `UPDATE auth_event SET type = 'signup' WHERE user_id = '${userId}'`
+      )
+    ).toThrow("append-only");
+    expect(() =>
+      sqliteTest.exec(`DELETE FROM auth_event WHERE user_id = '${userId}'`)
+    ).toThrow("append-only");
+
+    const events = await dbTest.query.authEvents.findMany({
+      where: eq(schema.authEvents.userId, userId),
+    });
+    expect(events.map((event) => event.type)).toEqual(["logout"]);
+  });
+
+  test("log should not throw when the event can't be written", async () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementationOnce(
+      () => {}
+    );
+    sqliteTest.exec(
+      "CREATE TEMP TRIGGER fail_insert BEFORE INSERT ON auth_event BEGIN SELECT RAISE(ABORT, 'injected fault'); END"
+    );
+
+    try {
+      await eventLog.log({ type: "logout", userId: null });
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      sqliteTest.exec("DROP TRIGGER fail_insert");
+      consoleErrorSpy.mockRestore();
+    }
+  });
+});
@@ -1,13 +1,26 @@
-import { test, expect, describe, spyOn, afterAll } from "bun:test";
+import { test, expect, describe, spyOn, afterAll, beforeAll } from "bun:test";
 import invariant from "tiny-invariant";
 import { createDate, TimeSpan } from "oslo";
 import { generateIdFromEntropySize } from "lucia";
 import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+import { migrate } from "drizzle-orm/bun-sqlite/migrator";
+import { Database } from "bun:sqlite";
+import { base64url, decodeBase32 } from "oslo/encoding";
+import { TOTPController } from "oslo/otp";
 
 import { AuthService } from "~/services/auth-service";
 import { sqliteTest, dbTest } from "../db";
+import { SoftwareAuthenticator } from "../software-authenticator";
 import * as schema from "../../db/schema";
-import type { AsyncResult, EmailServiceInterface } from "~/lib/types";
+import type {
+  AsyncResult,
+  AuthEventLoggerInterface,
+  EmailServiceInterface,
+  Role,
+  SignInDetails,
+  User,
+} from "~/lib/types";
 
 class MockEmailService implements EmailServiceInterface {
   sendConfirmEmail = (_: string): AsyncResult<null, "email_send_error"> => {
@@ -20,11 +33,113 @@ class MockEmailService implements EmailServiceInterface {
   ): AsyncResult<null, "email_send_error"> => {
     return Promise.resolve({ type: "success", data: null });
   };
+
+  sendMagicLinkEmail = (
+    _email: string,
+    _magicLink: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendAlreadyRegisteredEmail = (
+    _email: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendEmailChangedEmail = (
+    _email: string,
+    _newEmail: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendPasswordChangedEmail = (
+    _email: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendNewSignInEmail = (
+    _email: string,
+    _signIn: SignInDetails
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
 }
 
 const mockEmailService = new MockEmailService();
 const authService = new AuthService(sqliteTest, mockEmailService);
 
+// Loads a user the way a validated session sees it, roles included
+async function findSessionUser(email: string): Promise<User | undefined> {
+  const user = await dbTest.query.users.findFirst({
+    where: eq(schema.users.email, email),
+  });
+  if (user == null) {
+    return undefined;
+  }
+
+  const roles = await dbTest
+    .select({ role: schema.userRoles.role })
+    .from(schema.userRoles)
+    .where(eq(schema.userRoles.userId, user.id));
+
+  return {
+    id: user.id,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    disabledAt: user.disabledAt,
+    deletedAt: user.deletedAt,
+    roles: roles.map((row) => row.role as Role),
+  };
+}
+
+// Tokens only ever leave the service inside an email, so tests read them from
+// the link that was sent
+function tokenFromLink(link: string): string {
+  const token = new URL(link).searchParams.get("token");
+  invariant(token);
+  return token;
+}
+
+async function requestPasswordResetToken(email: string): Promise<string> {
+  const sendResetPasswordEmailSpy = spyOn(
+    mockEmailService,
+    "sendResetPasswordEmail"
+  );
+  const requestResult = await authService.resetPasswordRequest(
+    "https://test.com",
+    email
+  );
+  invariant(requestResult.type === "success");
+
+  const lastCall = sendResetPasswordEmailSpy.mock.lastCall;
+  invariant(lastCall);
+  return tokenFromLink(lastCall[1]);
+}
+
+async function requestMagicLinkToken(email: string): Promise<string> {
+  const sendMagicLinkEmailSpy = spyOn(mockEmailService, "sendMagicLinkEmail");
+  const requestResult = await authService.requestMagicLink(
+    "https://test.com",
+    email
+  );
+  invariant(requestResult.type === "success");
+
+  const lastCall = sendMagicLinkEmailSpy.mock.lastCall;
+  invariant(lastCall);
+  return tokenFromLink(lastCall[1]);
+}
+
+// Backdates the user's pending email code so a new one can be sent right away
+async function skipResendCooldown(userId: string) {
+  await dbTest
+    .update(schema.emailVerificationCodes)
+    .set({ createdAt: createDate(new TimeSpan(-1, "h")) })
+    .where(eq(schema.emailVerificationCodes.userId, userId));
+}
+
 describe("AuthService", () => {
   const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
   const randomPassword = generateIdFromEntropySize(10);
@@ -53,9 +168,6 @@ describe("AuthService", () => {
     expect(lastCall[0]).toEqual(randomEmail);
 
     expect(signupResult.type).toEqual("success");
-    if (signupResult.type === "success") {
-      expect(signupResult.data.sessionId).toBeTruthy();
-    }
 
     const user = await dbTest.query.users.findFirst({
       where: eq(schema.users.email, randomEmail),
@@ -65,16 +177,31 @@ describe("AuthService", () => {
     invariant(user);
   });
 
-  test("signup with duplicated email should return error", async () => {
+  test("signup with duplicated email should succeed but only notify the owner", async () => {
+    const sendConfirmEmailSpy = spyOn(mockEmailService, "sendConfirmEmail");
+    const sendAlreadyRegisteredEmailSpy = spyOn(
+      mockEmailService,
+      "sendAlreadyRegisteredEmail"
+    );
+    const confirmEmailCalls = sendConfirmEmailSpy.mock.calls.length;
+
     const duplicatedSignupResult = await authService.signup({
       email: randomEmail,
-      password: randomPassword,
+      password: "another-password",
     });
 
-    expect(duplicatedSignupResult.type).toEqual("failure");
-    invariant(duplicatedSignupResult.type === "failure");
+    expect(duplicatedSignupResult.type).toEqual("success");
+    expect(sendAlreadyRegisteredEmailSpy.mock.lastCall).toEqual([randomEmail]);
+    expect(sendConfirmEmailSpy).toHaveBeenCalledTimes(confirmEmailCalls);
 
-    expect(duplicatedSignupResult.error).toEqual("user_exists");
+    // The existing account is left alone
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+    invariant(user?.passwordHash);
+    expect(
+      await Bun.password.verify("another-password", user.passwordHash)
+    ).toEqual(false);
   });
 
   test("signup should create an email verification code", async () => {
@@ -108,16 +235,22 @@ describe("AuthService", () => {
     }
   });
 
-  test("login with invalid email should return user_not_found", async () => {
+  test("login with unknown email should return invalid_credentials", async () => {
+    const verifySpy = spyOn(Bun.password, "verify");
+    const verifyCalls = verifySpy.mock.calls.length;
+
     const loginResult = await authService.login({
-      email: "fake",
+      email: "fake@test.com",
       password: randomPassword,
     });
 
     expect(loginResult.type).toEqual("failure");
     invariant(loginResult.type === "failure");
 
-    expect(loginResult.error).toEqual("user_not_found");
+    expect(loginResult.error).toEqual("invalid_credentials");
+    // A hash is checked anyway so the response takes as long
+    expect(verifySpy).toHaveBeenCalledTimes(verifyCalls + 1);
+    verifySpy.mockRestore();
   });
 
   test("login with invalid password should return invalid_credentials", async () => {
@@ -165,7 +298,7 @@ describe("AuthService", () => {
     });
 
     expect(user).toBeTruthy();
-    invariant(user);
+    invariant(user?.passwordHash);
 
     const isMatch = await Bun.password.verify(
       randomPassword,
@@ -223,9 +356,7 @@ describe("AuthService", () => {
   });
 
   test("verifyEmailCode should return success if code is valid", async () => {
-    const user = await dbTest.query.users.findFirst({
-      where: eq(schema.users.email, randomEmail),
-    });
+    const user = await findSessionUser(randomEmail);
 
     expect(user).toBeTruthy();
     invariant(user);
@@ -259,9 +390,7 @@ describe("AuthService", () => {
   });
 
   test("verifyEmailCode should return expired_code if code is expired", async () => {
-    const user = await dbTest.query.users.findFirst({
-      where: eq(schema.users.email, randomEmail),
-    });
+    const user = await findSessionUser(randomEmail);
 
     expect(user).toBeTruthy();
     invariant(user);
@@ -295,16 +424,14 @@ describe("AuthService", () => {
   });
 
   test("verifyEmailCode should return invalid_code if code is invalid", async () => {
-    const user = await dbTest.query.users.findFirst({
-      where: eq(schema.users.email, randomEmail),
-    });
+    const user = await findSessionUser(randomEmail);
 
     expect(user).toBeTruthy();
     invariant(user);
 
     const verifyEmailCodeResult = await authService.verifyEmailCode(
       user,
-      "wrong"
+      "00000000"
     );
 
     expect(verifyEmailCodeResult.type).toEqual("failure");
@@ -385,19 +512,23 @@ describe("AuthService", () => {
     );
   });
 
-  test("resetPasswordRequest should return email_not_found if email is not found", async () => {
+  test("resetPasswordRequest should return success without an email if email is not found", async () => {
+    const sendResetPasswordEmailSpy = spyOn(
+      mockEmailService,
+      "sendResetPasswordEmail"
+    );
+    const sentEmails = sendResetPasswordEmailSpy.mock.calls.length;
+
     const resetPasswordRequestResult = await authService.resetPasswordRequest(
       "test.com",
-      "fake"
+      "fake@test.com"
     );
 
-    expect(resetPasswordRequestResult.type).toEqual("failure");
-    invariant(resetPasswordRequestResult.type === "failure");
-
-    expect(resetPasswordRequestResult.error).toEqual("email_not_found");
+    expect(resetPasswordRequestResult.type).toEqual("success");
+    expect(sendResetPasswordEmailSpy).toHaveBeenCalledTimes(sentEmails);
   });
 
-  test("resetPasswordRequest should return email_send_error if email service fails", async () => {
+  test("resetPasswordRequest should queue a retry if email service fails", async () => {
     const sendResetPasswordEmailSpy = spyOn(
       mockEmailService,
       "sendResetPasswordEmail"
@@ -412,10 +543,15 @@ describe("AuthService", () => {
       randomEmail
     );
 
-    expect(resetPasswordRequestResult.type).toEqual("failure");
-    invariant(resetPasswordRequestResult.type === "failure");
+    expect(resetPasswordRequestResult.type).toEqual("success");
 
-    expect(resetPasswordRequestResult.error).toEqual("email_send_error");
+    const pending = await authService.emailOutbox.list("pending");
+    const retry = pending.find((message) => message.recipient === randomEmail);
+    invariant(retry);
+    expect(retry.type).toEqual("reset_password");
+    expect(retry.attempts).toEqual(1);
+    expect(retry.lastError).toEqual("email_send_error");
+    expect(retry.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
   });
 
   test("resetPassword should return success if code is valid", async () => {
@@ -426,18 +562,12 @@ describe("AuthService", () => {
     expect(user).toBeTruthy();
     invariant(user);
 
-    const response = await authService.resetPasswordRequest(
-      "test.com",
-      user.email
-    );
-
-    expect(response.type).toEqual("success");
-    invariant(response.type === "success");
+    const token = await requestPasswordResetToken(user.email);
 
     const newPassword = "newPassword";
     const resetPasswordResult = await authService.resetPassword(
       newPassword,
-      response.data.tokenId
+      token
     );
 
     expect(resetPasswordResult.type).toEqual("success");
@@ -448,7 +578,7 @@ describe("AuthService", () => {
     });
 
     expect(updatedUser).toBeTruthy();
-    invariant(updatedUser);
+    invariant(updatedUser?.passwordHash);
 
     const isMatch = await Bun.password.verify(
       newPassword,
@@ -461,7 +591,7 @@ describe("AuthService", () => {
   test("resetPassword should return invalid_code if code is invalid", async () => {
     const resetPasswordResult = await authService.resetPassword(
       "newPassword",
-      "fake"
+      generateIdFromEntropySize(25)
     );
 
     expect(resetPasswordResult.type).toEqual("failure");
@@ -477,13 +607,7 @@ describe("AuthService", () => {
     expect(user).toBeTruthy();
     invariant(user);
 
-    const response = await authService.resetPasswordRequest(
-      "test.com",
-      user.email
-    );
-
-    expect(response.type).toEqual("success");
-    invariant(response.type === "success");
+    const token = await requestPasswordResetToken(user.email);
 
     await dbTest
       .update(schema.passwordResetTokens)
@@ -494,7 +618,7 @@ describe("AuthService", () => {
 
     const resetPasswordResult = await authService.resetPassword(
       "newPassword",
-      response.data.tokenId
+      token
     );
 
     expect(resetPasswordResult.type).toEqual("failure");
@@ -502,3 +626,2410 @@ describe("AuthService", () => {
     expect(resetPasswordResult.error).toEqual("code_expired");
   });
 });
+
+describe("AuthService password reset tokens", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+
+  beforeAll(async () => {
+    await authService.signup({
+      email: randomEmail,
+      password: generateIdFromEntropySize(10),
+    });
+  });
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("resetPassword should only accept a token once, even concurrently", async () => {
+    const token = await requestPasswordResetToken(randomEmail);
+
+    const results = await Promise.all([
+      authService.resetPassword("first-password", token),
+      authService.resetPassword("second-password", token),
+    ]);
+
+    expect(results.map((result) => result.type).sort()).toEqual([
+      "failure",
+      "success",
+    ]);
+
+    const replayResult = await authService.resetPassword(
+      "third-password",
+      token
+    );
+    expect(replayResult.type).toEqual("failure");
+    invariant(replayResult.type === "failure");
+    expect(replayResult.error).toEqual("invalid_code");
+  });
+
+  test("validateResetToken should check a token without using it up", async () => {
+    const token = await requestPasswordResetToken(randomEmail);
+
+    expect((await authService.validateResetToken(token)).type).toEqual(
+      "success"
+    );
+    expect((await authService.validateResetToken(token)).type).toEqual(
+      "success"
+    );
+
+    const resetPasswordResult = await authService.resetPassword(
+      "newPassword",
+      token
+    );
+    expect(resetPasswordResult.type).toEqual("success");
+
+    const usedResult = await authService.validateResetToken(token);
+    expect(usedResult.type).toEqual("failure");
+    invariant(usedResult.type === "failure");
+    expect(usedResult.error).toEqual("invalid_code");
+
+    const malformedResult = await authService.validateResetToken("not-a-token");
+    invariant(malformedResult.type === "failure");
+    expect(malformedResult.error).toEqual("invalid_code");
+  });
+
+  test("validateResetToken should return code_expired for an expired token", async () => {
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+    invariant(user);
+
+    const token = await requestPasswordResetToken(randomEmail);
+    await dbTest
+      .update(schema.passwordResetTokens)
+      .set({ expiresAt: createDate(new TimeSpan(-1, "m")) })
+      .where(eq(schema.passwordResetTokens.userId, user.id));
+
+    const validateResult = await authService.validateResetToken(token);
+    invariant(validateResult.type === "failure");
+    expect(validateResult.error).toEqual("code_expired");
+  });
+});
+
+describe("AuthService rate limiting", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("login should return too_many_attempts after repeated failures", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+
+    for (let i = 0; i < 5; i++) {
+      const loginResult = await authService.login({
+        email: randomEmail,
+        password: "wrong_password",
+      });
+
+      invariant(loginResult.type === "failure");
+      expect(loginResult.error).toEqual("invalid_credentials");
+    }
+
+    // Even the right password is rejected while the account is backing off
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+
+    expect(loginResult.error).toEqual("too_many_attempts");
+    invariant(loginResult.error === "too_many_attempts");
+    expect(loginResult.details.retryAfter.getTime()).toBeGreaterThan(
+      Date.now()
+    );
+  });
+
+  test("login failures should be counted per IP across emails", async () => {
+    const client = { userAgent: null, ipAddress: "203.0.113.7" };
+
+    for (let i = 0; i < 5; i++) {
+      await authService.login(
+        {
+          email: `${generateIdFromEntropySize(10)}@test.com`,
+          password: "wrong_password",
+        },
+        client
+      );
+    }
+
+    const loginResult = await authService.login(
+      {
+        email: `${generateIdFromEntropySize(10)}@test.com`,
+        password: "wrong_password",
+      },
+      client
+    );
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("too_many_attempts");
+  });
+
+  test("parallel login attempts should not get past the limit", async () => {
+    const email = `${generateIdFromEntropySize(10)}@test.com`;
+    await authService.signup({ email, password: randomPassword });
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () =>
+        authService.login({ email, password: "wrong_password" })
+      )
+    );
+
+    const errors = results.map((result) =>
+      result.type === "failure" ? result.error : null
+    );
+    // Only the free attempts of loginPolicy are let through
+    expect(
+      errors.filter((error) => error === "invalid_credentials")
+    ).toHaveLength(5);
+    expect(
+      errors.filter((error) => error === "too_many_attempts")
+    ).toHaveLength(15);
+
+    await dbTest.delete(schema.users).where(eq(schema.users.email, email));
+  });
+
+  test("a successful login should not count against its IP", async () => {
+    const client = { userAgent: null, ipAddress: "203.0.113.8" };
+    const email = `${generateIdFromEntropySize(10)}@test.com`;
+    await authService.signup({ email, password: randomPassword });
+
+    for (let i = 0; i < 10; i++) {
+      const loginResult = await authService.login(
+        { email, password: randomPassword },
+        client
+      );
+      expect(loginResult.type).toEqual("success");
+    }
+
+    await dbTest.delete(schema.users).where(eq(schema.users.email, email));
+  });
+
+  test("verifyEmailCode should return too_many_attempts after repeated wrong codes", async () => {
+    const user = await findSessionUser(randomEmail);
+    invariant(user);
+
+    for (let i = 0; i < 3; i++) {
+      const verifyEmailCodeResult = await authService.verifyEmailCode(
+        user,
+        "00000000"
+      );
+
+      invariant(verifyEmailCodeResult.type === "failure");
+      expect(verifyEmailCodeResult.error).toEqual("invalid_code");
+    }
+
+    const verifyEmailCodeResult = await authService.verifyEmailCode(
+      user,
+      "00000000"
+    );
+
+    expect(verifyEmailCodeResult.type).toEqual("failure");
+    invariant(verifyEmailCodeResult.type === "failure");
+    expect(verifyEmailCodeResult.error).toEqual("too_many_attempts");
+  });
+
+  test("resetPasswordRequest should return too_many_attempts when flooded", async () => {
+    for (let i = 0; i < 5; i++) {
+      const resetPasswordRequestResult =
+        await authService.resetPasswordRequest("test.com", randomEmail);
+      expect(resetPasswordRequestResult.type).toEqual("success");
+    }
+
+    const resetPasswordRequestResult = await authService.resetPasswordRequest(
+      "test.com",
+      randomEmail
+    );
+
+    expect(resetPasswordRequestResult.type).toEqual("failure");
+    invariant(resetPasswordRequestResult.type === "failure");
+    expect(resetPasswordRequestResult.error).toEqual("too_many_attempts");
+  });
+
+  test("signup should stop emailing the owner of a registered email when flooded", async () => {
+    const sendAlreadyRegisteredEmailSpy = spyOn(
+      mockEmailService,
+      "sendAlreadyRegisteredEmail"
+    );
+    sendAlreadyRegisteredEmailSpy.mockClear();
+
+    for (let i = 0; i < 8; i++) {
+      const signupResult = await authService.signup({
+        email: randomEmail,
+        password: "another-password",
+      });
+
+      // Still no hint that the address is registered
+      expect(signupResult.type).toEqual("success");
+    }
+
+    expect(sendAlreadyRegisteredEmailSpy).toHaveBeenCalledTimes(5);
+    sendAlreadyRegisteredEmailSpy.mockRestore();
+  });
+});
+
+describe("AuthService two-factor authentication", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+  const totpController = new TOTPController();
+  let secret: Uint8Array;
+  let recoveryCodes: string[];
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  async function getUser() {
+    const user = await findSessionUser(randomEmail);
+    invariant(user);
+    return user;
+  }
+
+  async function loginWithPassword() {
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("two_factor_required");
+    invariant(loginResult.error === "two_factor_required");
+
+    return loginResult.details.pendingLoginToken;
+  }
+
+  test("beginTwoFactorEnrollment should return a secret and an otpauth uri", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+    const user = await getUser();
+
+    const enrollmentResult = await authService.beginTwoFactorEnrollment(user);
+
+    expect(enrollmentResult.type).toEqual("success");
+    invariant(enrollmentResult.type === "success");
+
+    expect(enrollmentResult.data.uri).toStartWith("otpauth://totp/");
+    expect(enrollmentResult.data.uri).toContain(
+      encodeURIComponent(randomEmail)
+    );
+
+    secret = decodeBase32(enrollmentResult.data.secret);
+
+    // Not enabled until confirmed
+    const statusResult = await authService.getTwoFactorStatus(user);
+    invariant(statusResult.type === "success");
+    expect(statusResult.data.enabled).toEqual(false);
+  });
+
+  test("confirmTwoFactorEnrollment should return invalid_code if code is invalid", async () => {
+    const user = await getUser();
+
+    const confirmResult = await authService.confirmTwoFactorEnrollment(
+      user,
+      "000000"
+    );
+
+    expect(confirmResult.type).toEqual("failure");
+    invariant(confirmResult.type === "failure");
+    expect(confirmResult.error).toEqual("invalid_code");
+  });
+
+  test("confirmTwoFactorEnrollment should enable 2FA and return hashed recovery codes", async () => {
+    const user = await getUser();
+
+    const confirmResult = await authService.confirmTwoFactorEnrollment(
+      user,
+      await totpController.generate(secret)
+    );
+
+    expect(confirmResult.type).toEqual("success");
+    invariant(confirmResult.type === "success");
+
+    recoveryCodes = confirmResult.data.recoveryCodes;
+    expect(recoveryCodes).toHaveLength(10);
+
+    const storedCodes = await dbTest.query.recoveryCodes.findMany({
+      where: eq(schema.recoveryCodes.userId, user.id),
+    });
+    expect(storedCodes).toHaveLength(10);
+    for (const storedCode of storedCodes) {
+      expect(recoveryCodes).not.toContain(storedCode.codeHash);
+    }
+
+    const statusResult = await authService.getTwoFactorStatus(user);
+    invariant(statusResult.type === "success");
+    expect(statusResult.data.enabled).toEqual(true);
+
+    const enrollmentResult = await authService.beginTwoFactorEnrollment(user);
+    invariant(enrollmentResult.type === "failure");
+    expect(enrollmentResult.error).toEqual("already_enabled");
+  });
+
+  test("login should return two_factor_required instead of a session", async () => {
+    const user = await getUser();
+    const sessionsBefore = await dbTest.query.sessions.findMany({
+      where: eq(schema.sessions.userId, user.id),
+    });
+
+    await loginWithPassword();
+
+    const sessionsAfter = await dbTest.query.sessions.findMany({
+      where: eq(schema.sessions.userId, user.id),
+    });
+    expect(sessionsAfter).toHaveLength(sessionsBefore.length);
+  });
+
+  test("verifyTwoFactorLogin should return a session for a valid code", async () => {
+    const pendingLoginToken = await loginWithPassword();
+
+    const verifyResult = await authService.verifyTwoFactorLogin(
+      pendingLoginToken,
+      await totpController.generate(secret)
+    );
+
+    expect(verifyResult.type).toEqual("success");
+    invariant(verifyResult.type === "success");
+    expect(verifyResult.data.sessionId).toBeTruthy();
+
+    // The pending token is single use
+    const replayResult = await authService.verifyTwoFactorLogin(
+      pendingLoginToken,
+      await totpController.generate(secret)
+    );
+    invariant(replayResult.type === "failure");
+    expect(replayResult.error).toEqual("invalid_token");
+  });
+
+  test("verifyTwoFactorLogin should return invalid_code if code is invalid", async () => {
+    const pendingLoginToken = await loginWithPassword();
+
+    const verifyResult = await authService.verifyTwoFactorLogin(
+      pendingLoginToken,
+      "000000"
+    );
+
+    expect(verifyResult.type).toEqual("failure");
+    invariant(verifyResult.type === "failure");
+    expect(verifyResult.error).toEqual("invalid_code");
+  });
+
+  test("verifyTwoFactorLogin should accept a recovery code only once", async () => {
+    const recoveryCode = recoveryCodes[0];
+
+    const verifyResult = await authService.verifyTwoFactorLogin(
+      await loginWithPassword(),
+      recoveryCode
+    );
+    expect(verifyResult.type).toEqual("success");
+
+    const reuseResult = await authService.verifyTwoFactorLogin(
+      await loginWithPassword(),
+      recoveryCode
+    );
+    invariant(reuseResult.type === "failure");
+    expect(reuseResult.error).toEqual("invalid_code");
+  });
+
+  test("verifyTwoFactorLogin should return expired_token if token is expired", async () => {
+    const pendingLoginToken = await loginWithPassword();
+
+    const user = await getUser();
+    await dbTest
+      .update(schema.pendingTwoFactorLogins)
+      .set({ expiresAt: createDate(new TimeSpan(-1, "m")) })
+      .where(eq(schema.pendingTwoFactorLogins.userId, user.id));
+
+    const verifyResult = await authService.verifyTwoFactorLogin(
+      pendingLoginToken,
+      await totpController.generate(secret)
+    );
+
+    expect(verifyResult.type).toEqual("failure");
+    invariant(verifyResult.type === "failure");
+    expect(verifyResult.error).toEqual("expired_token");
+  });
+});
+
+describe("AuthService magic link", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("requestMagicLink should send a link to the user", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+
+    const sendMagicLinkEmailSpy = spyOn(mockEmailService, "sendMagicLinkEmail");
+    const requestResult = await authService.requestMagicLink(
+      "https://test.com",
+      randomEmail
+    );
+
+    expect(requestResult.type).toEqual("success");
+
+    const lastCall = sendMagicLinkEmailSpy.mock.lastCall;
+    invariant(lastCall);
+    expect(lastCall[0]).toEqual(randomEmail);
+    expect(lastCall[1]).toStartWith("https://test.com/magic-link?token=");
+    const token = tokenFromLink(lastCall[1]);
+
+    const magicLinkToken = await dbTest.query.magicLinkTokens.findFirst({
+      where: eq(schema.magicLinkTokens.email, randomEmail),
+    });
+    invariant(magicLinkToken);
+
+    // Only the hash is stored
+    expect(magicLinkToken.tokenHash).not.toEqual(token);
+
+    const fifteenMinutesLater = createDate(new TimeSpan(15, "m"));
+    expect(magicLinkToken.expiresAt.getTime()).toBeLessThanOrEqual(
+      fifteenMinutesLater.getTime()
+    );
+  });
+
+  test("requestMagicLink should return success without an email if email is not found", async () => {
+    const sendMagicLinkEmailSpy = spyOn(mockEmailService, "sendMagicLinkEmail");
+    const sentEmails = sendMagicLinkEmailSpy.mock.calls.length;
+
+    const requestResult = await authService.requestMagicLink(
+      "https://test.com",
+      "fake@test.com"
+    );
+
+    expect(requestResult.type).toEqual("success");
+    expect(sendMagicLinkEmailSpy).toHaveBeenCalledTimes(sentEmails);
+  });
+
+  test("consumeMagicLink should create a session and verify the email", async () => {
+    const token = await requestMagicLinkToken(randomEmail);
+
+    const consumeResult = await authService.consumeMagicLink(token);
+
+    expect(consumeResult.type).toEqual("success");
+    invariant(consumeResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      consumeResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    expect(validatedSession.data.user.email).toEqual(randomEmail);
+    expect(validatedSession.data.user.emailVerified).toEqual(true);
+  });
+
+  test("consumeMagicLink should only work once", async () => {
+    const token = await requestMagicLinkToken(randomEmail);
+
+    await authService.consumeMagicLink(token);
+    const consumeResult = await authService.consumeMagicLink(token);
+
+    expect(consumeResult.type).toEqual("failure");
+    invariant(consumeResult.type === "failure");
+    expect(consumeResult.error).toEqual("invalid_token");
+  });
+
+  test("consumeMagicLink should return expired_token if token is expired", async () => {
+    const token = await requestMagicLinkToken(randomEmail);
+
+    await dbTest
+      .update(schema.magicLinkTokens)
+      .set({ expiresAt: createDate(new TimeSpan(-1, "m")) })
+      .where(eq(schema.magicLinkTokens.email, randomEmail));
+
+    const consumeResult = await authService.consumeMagicLink(token);
+
+    expect(consumeResult.type).toEqual("failure");
+    invariant(consumeResult.type === "failure");
+    expect(consumeResult.error).toEqual("expired_token");
+  });
+
+  test("consumeMagicLink should lock the squatter out of an unverified account", async () => {
+    // Someone signs up with an address that isn't theirs and turns on 2FA
+    const squattedEmail = `${generateIdFromEntropySize(10)}@test.com`;
+    await authService.signup({
+      email: squattedEmail,
+      password: randomPassword,
+    });
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, squattedEmail),
+    });
+    invariant(user);
+    await dbTest
+      .insert(schema.totpCredentials)
+      .values({ userId: user.id, secret: "00", enabledAt: new Date() });
+
+    // The owner follows a magic link, without being asked for the code
+    const token = await requestMagicLinkToken(squattedEmail);
+    const consumeResult = await authService.consumeMagicLink(token);
+    expect(consumeResult.type).toEqual("success");
+
+    const loginResult = await authService.login({
+      email: squattedEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("invalid_credentials");
+
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, squattedEmail));
+  });
+});
+
+describe("AuthService passkeys", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+  const origin = "https://test.com";
+  const authenticator = new SoftwareAuthenticator(origin);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  async function getUser() {
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    return validatedSession.data.user;
+  }
+
+  async function login(authenticator: SoftwareAuthenticator) {
+    const challengeResult = await authService.createPasskeyLoginChallenge();
+    invariant(challengeResult.type === "success");
+
+    return authService.loginWithPasskey(
+      authenticator.origin,
+      await authenticator.authenticate(challengeResult.data.challenge)
+    );
+  }
+
+  test("verifyPasskeyRegistration should store the credential", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+    const user = await getUser();
+
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+    expect(challengeResult.data.excludeCredentialIds).toEqual([]);
+
+    const registrationResult = await authService.verifyPasskeyRegistration(
+      user,
+      origin,
+      await authenticator.register(challengeResult.data.challenge)
+    );
+
+    expect(registrationResult.type).toEqual("success");
+
+    const credential = await dbTest.query.webauthnCredentials.findFirst({
+      where: eq(schema.webauthnCredentials.id, authenticator.credentialId),
+    });
+    expect(credential?.userId).toEqual(user.id);
+    expect(credential?.signCount).toEqual(0);
+
+    const nextChallengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(nextChallengeResult.type === "success");
+    expect(nextChallengeResult.data.excludeCredentialIds).toEqual([
+      authenticator.credentialId,
+    ]);
+  });
+
+  test("verifyPasskeyRegistration should return credential_exists for a registered credential", async () => {
+    const user = await getUser();
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+
+    const registrationResult = await authService.verifyPasskeyRegistration(
+      user,
+      origin,
+      await authenticator.register(challengeResult.data.challenge)
+    );
+
+    expect(registrationResult.type).toEqual("failure");
+    invariant(registrationResult.type === "failure");
+    expect(registrationResult.error).toEqual("credential_exists");
+  });
+
+  test("verifyPasskeyRegistration should return credential_exists if the credential is registered meanwhile", async () => {
+    const user = await getUser();
+    const racingAuthenticator = new SoftwareAuthenticator(
+      origin,
+      generateIdFromEntropySize(10)
+    );
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+
+    // Another registration of the credential lands right before this one
+    sqliteTest.exec(
+      `CREATE TEMP TRIGGER register_first BEFORE INSERT ON webauthn_credential
+       BEGIN
+         INSERT INTO webauthn_credential (id, user_id, public_key, sign_count)
+         VALUES (NEW.id, NEW.user_id, NEW.public_key, NEW.sign_count);
+       END`
+    );
+    try {
+      const registrationResult = await authService.verifyPasskeyRegistration(
+        user,
+        origin,
+        await racingAuthenticator.register(challengeResult.data.challenge)
+      );
+
+      expect(registrationResult.type).toEqual("failure");
+      invariant(registrationResult.type === "failure");
+      expect(registrationResult.error).toEqual("credential_exists");
+    } finally {
+      sqliteTest.exec("DROP TRIGGER register_first");
+    }
+  });
+
+  test("verifyPasskeyRegistration should return invalid_response for another origin", async () => {
+    const user = await getUser();
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+
+    const phishingAuthenticator = new SoftwareAuthenticator(
+      "https://phishing.com",
+      generateIdFromEntropySize(10)
+    );
+    const registrationResult = await authService.verifyPasskeyRegistration(
+      user,
+      origin,
+      await phishingAuthenticator.register(challengeResult.data.challenge)
+    );
+
+    expect(registrationResult.type).toEqual("failure");
+    invariant(registrationResult.type === "failure");
+    expect(registrationResult.error).toEqual("invalid_response");
+  });
+
+  test("verifyPasskeyRegistration should return unsupported_algorithm for non ES256 keys", async () => {
+    const user = await getUser();
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+
+    const response = await authenticator.register(
+      challengeResult.data.challenge
+    );
+    const registrationResult = await authService.verifyPasskeyRegistration(
+      user,
+      origin,
+      { ...response, algorithm: -257 }
+    );
+
+    expect(registrationResult.type).toEqual("failure");
+    invariant(registrationResult.type === "failure");
+    expect(registrationResult.error).toEqual("unsupported_algorithm");
+  });
+
+  test("verifyPasskeyRegistration should return expired_challenge if challenge is expired", async () => {
+    const user = await getUser();
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+
+    await dbTest
+      .update(schema.webauthnChallenges)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(
+        eq(schema.webauthnChallenges.challenge, challengeResult.data.challenge)
+      );
+
+    const registrationResult = await authService.verifyPasskeyRegistration(
+      user,
+      origin,
+      await authenticator.register(challengeResult.data.challenge)
+    );
+
+    expect(registrationResult.type).toEqual("failure");
+    invariant(registrationResult.type === "failure");
+    expect(registrationResult.error).toEqual("expired_challenge");
+  });
+
+  test("loginWithPasskey should create a session and update the counter", async () => {
+    const loginResult = await login(authenticator);
+
+    expect(loginResult.type).toEqual("success");
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    expect(validatedSession.data.user.email).toEqual(randomEmail);
+
+    const credential = await dbTest.query.webauthnCredentials.findFirst({
+      where: eq(schema.webauthnCredentials.id, authenticator.credentialId),
+    });
+    expect(credential?.signCount).toEqual(authenticator.signCount);
+  });
+
+  test("loginWithPasskey should only accept a challenge once", async () => {
+    const challengeResult = await authService.createPasskeyLoginChallenge();
+    invariant(challengeResult.type === "success");
+
+    const response = await authenticator.authenticate(
+      challengeResult.data.challenge
+    );
+    await authService.loginWithPasskey(origin, response);
+    const loginResult = await authService.loginWithPasskey(origin, response);
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("invalid_challenge");
+  });
+
+  test("loginWithPasskey should not accept a registration challenge", async () => {
+    const user = await getUser();
+    const challengeResult =
+      await authService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+
+    const loginResult = await authService.loginWithPasskey(
+      origin,
+      await authenticator.authenticate(challengeResult.data.challenge)
+    );
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("invalid_challenge");
+  });
+
+  test("loginWithPasskey should return unknown_credential for unregistered credentials", async () => {
+    const loginResult = await login(
+      new SoftwareAuthenticator(origin, generateIdFromEntropySize(10))
+    );
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("unknown_credential");
+  });
+
+  test("loginWithPasskey should return invalid_response for a bad signature", async () => {
+    const challengeResult = await authService.createPasskeyLoginChallenge();
+    invariant(challengeResult.type === "success");
+
+    const response = await authenticator.authenticate(
+      challengeResult.data.challenge
+    );
+    // Signed data no longer matches
+    const authenticatorData = base64url.decode(response.authenticatorData, {
+      strict: false,
+    });
+    authenticatorData[32] = 0x01;
+
+    const loginResult = await authService.loginWithPasskey(origin, {
+      ...response,
+      authenticatorData: base64url.encode(authenticatorData, {
+        includePadding: false,
+      }),
+    });
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("invalid_response");
+  });
+
+  test("loginWithPasskey should return user_verification_required without user verification", async () => {
+    // A security key without a PIN only proves someone touched it
+    const unverifiedAuthenticator = new SoftwareAuthenticator(
+      origin,
+      authenticator.credentialId
+    );
+    unverifiedAuthenticator.userVerified = false;
+    unverifiedAuthenticator.signCount = authenticator.signCount + 1;
+
+    const loginResult = await login(unverifiedAuthenticator);
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("user_verification_required");
+  });
+
+  test("loginWithPasskey should return account_disabled for a disabled account", async () => {
+    await dbTest
+      .update(schema.users)
+      .set({ disabledAt: new Date() })
+      .where(eq(schema.users.email, randomEmail));
+
+    const loginResult = await login(authenticator);
+
+    await dbTest
+      .update(schema.users)
+      .set({ disabledAt: null })
+      .where(eq(schema.users.email, randomEmail));
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("account_disabled");
+  });
+
+  test("loginWithPasskey should return counter_regression for a cloned authenticator", async () => {
+    const credential = await dbTest.query.webauthnCredentials.findFirst({
+      where: eq(schema.webauthnCredentials.id, authenticator.credentialId),
+    });
+    invariant(credential);
+
+    // The clone signs with the counter the server has already seen
+    const clonedAuthenticator = new SoftwareAuthenticator(
+      origin,
+      authenticator.credentialId
+    );
+    clonedAuthenticator.signCount = credential.signCount - 1;
+
+    const loginResult = await login(clonedAuthenticator);
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("counter_regression");
+  });
+});
+
+describe("AuthService change email", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const newEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const takenEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    for (const email of [randomEmail, newEmail, takenEmail]) {
+      await dbTest.delete(schema.users).where(eq(schema.users.email, email));
+    }
+  });
+
+  async function getCode(userId: string) {
+    const emailVerificationCode =
+      await dbTest.query.emailVerificationCodes.findFirst({
+        where: eq(schema.emailVerificationCodes.userId, userId),
+      });
+    invariant(emailVerificationCode);
+    return emailVerificationCode.code;
+  }
+
+  async function getUser(email: string) {
+    const loginResult = await authService.login({
+      email,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    return validatedSession.data.user;
+  }
+
+  test("requestEmailChange should return invalid_credentials for a wrong password", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+    await authService.signup({ email: takenEmail, password: randomPassword });
+    const user = await getUser(randomEmail);
+
+    const requestResult = await authService.requestEmailChange(
+      user,
+      newEmail,
+      "wrong password"
+    );
+
+    expect(requestResult.type).toEqual("failure");
+    invariant(requestResult.type === "failure");
+    expect(requestResult.error).toEqual("invalid_credentials");
+  });
+
+  test("requestEmailChange should return email_taken for an address in use", async () => {
+    const user = await getUser(randomEmail);
+
+    const requestResult = await authService.requestEmailChange(
+      user,
+      takenEmail,
+      randomPassword
+    );
+
+    expect(requestResult.type).toEqual("failure");
+    invariant(requestResult.type === "failure");
+    expect(requestResult.error).toEqual("email_taken");
+  });
+
+  test("confirmEmailChange should not accept a code for the current address", async () => {
+    const user = await getUser(randomEmail);
+    await skipResendCooldown(user.id);
+    await authService.createEmailVerificationCode(user.id, user.email);
+
+    const confirmResult = await authService.confirmEmailChange(
+      user,
+      await getCode(user.id)
+    );
+
+    expect(confirmResult.type).toEqual("failure");
+    invariant(confirmResult.type === "failure");
+    expect(confirmResult.error).toEqual("invalid_code");
+  });
+
+  test("confirmEmailChange should swap the email and notify the old address", async () => {
+    const user = await getUser(randomEmail);
+    const sendConfirmEmailSpy = spyOn(mockEmailService, "sendConfirmEmail");
+    const sendEmailChangedEmailSpy = spyOn(
+      mockEmailService,
+      "sendEmailChangedEmail"
+    );
+
+    await skipResendCooldown(user.id);
+    const requestResult = await authService.requestEmailChange(
+      user,
+      newEmail,
+      randomPassword
+    );
+    expect(requestResult.type).toEqual("success");
+
+    const lastCall = sendConfirmEmailSpy.mock.lastCall;
+    invariant(lastCall);
+    expect(lastCall[0]).toEqual(newEmail);
+
+    // Nothing changes until the code is confirmed
+    const unchangedUser = await dbTest.query.users.findFirst({
+      where: eq(schema.users.id, user.id),
+    });
+    expect(unchangedUser?.email).toEqual(randomEmail);
+
+    const confirmResult = await authService.confirmEmailChange(
+      user,
+      await getCode(user.id)
+    );
+
+    expect(confirmResult.type).toEqual("success");
+    invariant(confirmResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      confirmResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    expect(validatedSession.data.user.email).toEqual(newEmail);
+    expect(validatedSession.data.user.emailVerified).toEqual(true);
+
+    expect(sendEmailChangedEmailSpy.mock.lastCall).toEqual([
+      randomEmail,
+      newEmail,
+    ]);
+  });
+
+  test("confirmEmailChange should return email_taken if the address was claimed meanwhile", async () => {
+    const user = await getUser(takenEmail);
+    const claimedEmail = `${generateIdFromEntropySize(10)}@test.com`;
+
+    await skipResendCooldown(user.id);
+    await authService.requestEmailChange(user, claimedEmail, randomPassword);
+    const code = await getCode(user.id);
+
+    await authService.signup({ email: claimedEmail, password: randomPassword });
+
+    const confirmResult = await authService.confirmEmailChange(user, code);
+
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, claimedEmail));
+
+    expect(confirmResult.type).toEqual("failure");
+    invariant(confirmResult.type === "failure");
+    expect(confirmResult.error).toEqual("email_taken");
+  });
+
+  test("confirmEmailChange should return email_taken if the address is claimed during the update", async () => {
+    const user = await getUser(takenEmail);
+    const claimedEmail = `${generateIdFromEntropySize(10)}@test.com`;
+
+    await skipResendCooldown(user.id);
+    await authService.requestEmailChange(user, claimedEmail, randomPassword);
+    const code = await getCode(user.id);
+
+    // A signup that lands after the service checked the address is free
+    sqliteTest.exec(
+      `CREATE TEMP TRIGGER claim_email BEFORE UPDATE OF email ON "user"
+       BEGIN INSERT INTO "user" (id, email) VALUES ('claimer', NEW.email); END`
+    );
+    try {
+      const confirmResult = await authService.confirmEmailChange(user, code);
+
+      expect(confirmResult.type).toEqual("failure");
+      invariant(confirmResult.type === "failure");
+      expect(confirmResult.error).toEqual("email_taken");
+    } finally {
+      sqliteTest.exec("DROP TRIGGER claim_email");
+    }
+
+    const unchangedUser = await findSessionUser(takenEmail);
+    expect(unchangedUser?.id).toEqual(user.id);
+  });
+});
+
+describe("AuthService change password", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+  const newPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("changePassword should return invalid_credentials for a wrong password", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+
+    const changeResult = await authService.changePassword(
+      validatedSession.data.user,
+      "wrong password",
+      newPassword
+    );
+
+    expect(changeResult.type).toEqual("failure");
+    invariant(changeResult.type === "failure");
+    expect(changeResult.error).toEqual("invalid_credentials");
+  });
+
+  test("changePassword should update the password and rotate sessions", async () => {
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+    const otherLoginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(otherLoginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+
+    const changeResult = await authService.changePassword(
+      validatedSession.data.user,
+      randomPassword,
+      newPassword
+    );
+
+    expect(changeResult.type).toEqual("success");
+    invariant(changeResult.type === "success");
+
+    const newSession = await authService.validateSession(
+      changeResult.data.sessionId
+    );
+    expect(newSession.type).toEqual("success");
+
+    for (const sessionId of [
+      loginResult.data.sessionId,
+      otherLoginResult.data.sessionId,
+    ]) {
+      const oldSession = await authService.validateSession(sessionId);
+      expect(oldSession.type).toEqual("failure");
+    }
+
+    const oldPasswordLogin = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    expect(oldPasswordLogin.type).toEqual("failure");
+
+    const newPasswordLogin = await authService.login({
+      email: randomEmail,
+      password: newPassword,
+    });
+    expect(newPasswordLogin.type).toEqual("success");
+  });
+
+  test("changePassword should invalidate outstanding reset links", async () => {
+    const token = await requestPasswordResetToken(randomEmail);
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: newPassword,
+    });
+    invariant(loginResult.type === "success");
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+
+    const changeResult = await authService.changePassword(
+      validatedSession.data.user,
+      newPassword,
+      randomPassword
+    );
+    expect(changeResult.type).toEqual("success");
+
+    const resetResult = await authService.resetPassword("newPassword", token);
+    expect(resetResult.type).toEqual("failure");
+    invariant(resetResult.type === "failure");
+    expect(resetResult.error).toEqual("invalid_code");
+  });
+});
+
+describe("AuthService sessions", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const otherEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+  const client = { userAgent: "Test Browser", ipAddress: "127.0.0.1" };
+
+  afterAll(async () => {
+    for (const email of [randomEmail, otherEmail]) {
+      await dbTest.delete(schema.users).where(eq(schema.users.email, email));
+    }
+  });
+
+  async function login(email: string) {
+    const loginResult = await authService.login({
+      email,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId,
+      client
+    );
+    invariant(validatedSession.type === "success");
+
+    return {
+      sessionId: loginResult.data.sessionId,
+      user: validatedSession.data.user,
+    };
+  }
+
+  test("listSessions should return the sessions with their client", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+
+    const { sessionId, user } = await login(randomEmail);
+    await login(randomEmail);
+
+    const listResult = await authService.listSessions(user, sessionId);
+    invariant(listResult.type === "success");
+
+    expect(listResult.data).toHaveLength(2);
+    for (const session of listResult.data) {
+      expect(session.userAgent).toEqual(client.userAgent);
+      expect(session.ipAddress).toEqual(client.ipAddress);
+      expect(session.id).not.toEqual(sessionId);
+    }
+
+    const currentSessions = listResult.data.filter(
+      (session) => session.current
+    );
+    expect(currentSessions).toHaveLength(1);
+  });
+
+  test("revokeSession should only revoke the user's own sessions", async () => {
+    await authService.signup({ email: otherEmail, password: randomPassword });
+    const other = await login(otherEmail);
+    const { sessionId, user } = await login(randomEmail);
+
+    const otherListResult = await authService.listSessions(other.user);
+    invariant(otherListResult.type === "success");
+
+    const revokeOtherUserResult = await authService.revokeSession(
+      user,
+      otherListResult.data[0].id
+    );
+    expect(revokeOtherUserResult.type).toEqual("failure");
+    invariant(revokeOtherUserResult.type === "failure");
+    expect(revokeOtherUserResult.error).toEqual("session_not_found");
+
+    const listResult = await authService.listSessions(user, sessionId);
+    invariant(listResult.type === "success");
+    const current = listResult.data.find((session) => session.current);
+    invariant(current);
+
+    const revokeResult = await authService.revokeSession(user, current.id);
+    expect(revokeResult.type).toEqual("success");
+
+    const validatedSession = await authService.validateSession(sessionId);
+    expect(validatedSession.type).toEqual("failure");
+  });
+
+  test("revokeOtherSessions should keep the current session", async () => {
+    const { sessionId, user } = await login(randomEmail);
+    await login(randomEmail);
+    const other = await login(otherEmail);
+
+    const otherListBefore = await authService.listSessions(other.user);
+    invariant(otherListBefore.type === "success");
+
+    await authService.revokeOtherSessions(user, sessionId);
+
+    const listResult = await authService.listSessions(user, sessionId);
+    invariant(listResult.type === "success");
+    expect(listResult.data).toHaveLength(1);
+    expect(listResult.data[0].current).toEqual(true);
+
+    // Other users are untouched
+    const otherListAfter = await authService.listSessions(other.user);
+    invariant(otherListAfter.type === "success");
+    expect(otherListAfter.data).toHaveLength(otherListBefore.data.length);
+  });
+});
+
+describe("AuthService password policy", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("signup should return weak_password with the reasons", async () => {
+    const signupResult = await authService.signup({
+      email: randomEmail,
+      password: "short",
+    });
+
+    expect(signupResult.type).toEqual("failure");
+    invariant(signupResult.type === "failure");
+    expect(signupResult.error).toEqual("weak_password");
+    invariant(signupResult.error === "weak_password");
+    expect(signupResult.details.reasons).toEqual(["too_short"]);
+
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+    expect(user).toBeUndefined();
+  });
+
+  test("resetPassword should keep the token usable after a weak password", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+
+    const sendResetPasswordEmailSpy = spyOn(
+      mockEmailService,
+      "sendResetPasswordEmail"
+    );
+    await authService.resetPasswordRequest("https://test.com", randomEmail);
+    const lastCall = sendResetPasswordEmailSpy.mock.lastCall;
+    invariant(lastCall);
+    const token = new URL(lastCall[1]).searchParams.get("token");
+    invariant(token);
+
+    const weakResult = await authService.resetPassword(randomEmail, token);
+    expect(weakResult.type).toEqual("failure");
+    invariant(weakResult.type === "failure");
+    expect(weakResult.error).toEqual("weak_password");
+
+    const resetResult = await authService.resetPassword(
+      generateIdFromEntropySize(10),
+      token
+    );
+    expect(resetResult.type).toEqual("success");
+  });
+});
+
+describe("AuthService input validation", () => {
+  const localPart = generateIdFromEntropySize(10);
+  const randomEmail = `${localPart}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("signup should return validation_error with a message per field", async () => {
+    const signupResult = await authService.signup({
+      email: "not-an-email",
+      password: "",
+    });
+
+    expect(signupResult.type).toEqual("failure");
+    invariant(signupResult.type === "failure");
+    expect(signupResult.error).toEqual("validation_error");
+    invariant(signupResult.error === "validation_error");
+    expect(signupResult.details).toEqual({
+      email: "Enter a valid email address",
+      password: "Password is required",
+    });
+  });
+
+  test("signup should store the email trimmed and lowercased", async () => {
+    const signupResult = await authService.signup({
+      email: `  ${localPart.toUpperCase()}@Test.com `,
+      password: randomPassword,
+    });
+    expect(signupResult.type).toEqual("success");
+
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+    expect(user?.email).toEqual(randomEmail);
+  });
+
+  test("login should ignore the case of the email", async () => {
+    const loginResult = await authService.login({
+      email: randomEmail.toUpperCase(),
+      password: randomPassword,
+    });
+
+    expect(loginResult.type).toEqual("success");
+  });
+
+  test("signup should treat the same email in another case as existing", async () => {
+    const sendAlreadyRegisteredEmailSpy = spyOn(
+      mockEmailService,
+      "sendAlreadyRegisteredEmail"
+    );
+
+    const signupResult = await authService.signup({
+      email: randomEmail.toUpperCase(),
+      password: randomPassword,
+    });
+
+    expect(signupResult.type).toEqual("success");
+    expect(sendAlreadyRegisteredEmailSpy.mock.lastCall).toEqual([randomEmail]);
+  });
+
+  test("the email column should be unique regardless of case", () => {
+    // Bypasses the service, which would have normalised the address
+    const insert = () =>
+      sqliteTest
+        .query("INSERT INTO user (id, email) VALUES (?, ?)")
+        .run(generateIdFromEntropySize(10), randomEmail.toUpperCase());
+
+    expect(insert).toThrow();
+  });
+
+  test("verifyTwoFactorLogin should return validation_error for a malformed token", async () => {
+    const verifyResult = await authService.verifyTwoFactorLogin(
+      "not-a-token",
+      "12 34 56"
+    );
+
+    expect(verifyResult.type).toEqual("failure");
+    invariant(verifyResult.type === "failure");
+    expect(verifyResult.error).toEqual("validation_error");
+    invariant(verifyResult.error === "validation_error");
+    expect(verifyResult.details).toEqual({
+      pendingLoginToken: "Your sign in attempt expired, please log in again",
+    });
+  });
+});
+
+describe("AuthService transactions", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  // Makes every insert into `table` fail, as if the process died right before
+  // that write
+  async function withFailingInsert(table: string, run: () => Promise<unknown>) {
+    sqliteTest.exec(
+      `CREATE TEMP TRIGGER fail_insert BEFORE INSERT ON "${table}"
+       BEGIN SELECT RAISE(ABORT, 'injected fault'); END`
+    );
+    try {
+      await expect(run()).rejects.toThrow("injected fault");
+    } finally {
+      sqliteTest.exec("DROP TRIGGER fail_insert");
+    }
+  }
+
+  async function login() {
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+    return loginResult.data.sessionId;
+  }
+
+  async function findUser() {
+    return dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+  }
+
+  test("signup should not leave a user without a verification code", async () => {
+    await withFailingInsert("email_verification_code", () =>
+      authService.signup({ email: randomEmail, password: randomPassword })
+    );
+
+    expect(await findUser()).toBeUndefined();
+
+    const signupResult = await authService.signup({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    expect(signupResult.type).toEqual("success");
+    expect(await findUser()).toBeTruthy();
+  });
+
+  test("createEmailVerificationCode should keep the old code if queueing the email fails", async () => {
+    const user = await findUser();
+    invariant(user);
+    await skipResendCooldown(user.id);
+    const codeBefore = await dbTest.query.emailVerificationCodes.findFirst({
+      where: eq(schema.emailVerificationCodes.userId, user.id),
+    });
+    invariant(codeBefore);
+
+    await withFailingInsert("email_outbox", () =>
+      authService.createEmailVerificationCode(user.id, user.email)
+    );
+
+    const codeAfter = await dbTest.query.emailVerificationCodes.findFirst({
+      where: eq(schema.emailVerificationCodes.userId, user.id),
+    });
+    expect(codeAfter).toEqual(codeBefore);
+  });
+
+  test("resetPassword should change nothing if the new session can't be created", async () => {
+    const sessionId = await login();
+    const userBefore = await findUser();
+    invariant(userBefore);
+    const token = await requestPasswordResetToken(randomEmail);
+
+    await withFailingInsert("session", () =>
+      authService.resetPassword("a-new-password", token)
+    );
+
+    expect(await findUser()).toEqual(userBefore);
+    const session = await authService.validateSession(sessionId);
+    expect(session.type).toEqual("success");
+  });
+
+  test("changePassword should change nothing if the new session can't be created", async () => {
+    const sessionId = await login();
+    const validatedSession = await authService.validateSession(sessionId);
+    invariant(validatedSession.type === "success");
+    const userBefore = await findUser();
+    invariant(userBefore);
+
+    await withFailingInsert("session", () =>
+      authService.changePassword(
+        validatedSession.data.user,
+        randomPassword,
+        "a-new-password"
+      )
+    );
+
+    expect(await findUser()).toEqual(userBefore);
+    const session = await authService.validateSession(sessionId);
+    expect(session.type).toEqual("success");
+  });
+});
+
+describe("AuthService email codes", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  async function getUser() {
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    return validatedSession.data.user;
+  }
+
+  async function getCode(userId: string) {
+    return dbTest.query.emailVerificationCodes.findFirst({
+      where: eq(schema.emailVerificationCodes.userId, userId),
+    });
+  }
+
+  test("createEmailVerificationCode should return resend_cooldown right after a code was sent", async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+    const user = await getUser();
+    const codeBefore = await getCode(user.id);
+    invariant(codeBefore);
+
+    const resendResult = await authService.createEmailVerificationCode(
+      user.id,
+      user.email
+    );
+
+    expect(resendResult.type).toEqual("failure");
+    invariant(resendResult.type === "failure");
+    expect(resendResult.error).toEqual("resend_cooldown");
+    expect(resendResult.details.retryAfter.getTime()).toBeGreaterThan(
+      Date.now()
+    );
+    expect(await getCode(user.id)).toEqual(codeBefore);
+
+    await skipResendCooldown(user.id);
+    const laterResult = await authService.createEmailVerificationCode(
+      user.id,
+      user.email
+    );
+    expect(laterResult.type).toEqual("success");
+  });
+
+  test("verifyEmailCode should burn the code after too many wrong guesses", async () => {
+    const user = await getUser();
+    const emailVerificationCode = await getCode(user.id);
+    invariant(emailVerificationCode);
+    const wrongCode =
+      emailVerificationCode.code === "00000000" ? "11111111" : "00000000";
+
+    const errors: string[] = [];
+    for (let attempt = 0; attempt < 5; attempt++) {
+      // Takes the per-user rate limiter out of the picture
+      await dbTest
+        .delete(schema.rateLimits)
+        .where(eq(schema.rateLimits.key, `email_code:${user.id}`));
+
+      const verifyResult = await authService.verifyEmailCode(user, wrongCode);
+      invariant(verifyResult.type === "failure");
+      errors.push(verifyResult.error);
+    }
+
+    expect(errors).toEqual([
+      "invalid_code",
+      "invalid_code",
+      "invalid_code",
+      "invalid_code",
+      "attempts_exhausted",
+    ]);
+    expect(await getCode(user.id)).toBeUndefined();
+
+    await dbTest
+      .delete(schema.rateLimits)
+      .where(eq(schema.rateLimits.key, `email_code:${user.id}`));
+    const correctResult = await authService.verifyEmailCode(
+      user,
+      emailVerificationCode.code
+    );
+    invariant(correctResult.type === "failure");
+    expect(correctResult.error).toEqual("invalid_code");
+  });
+
+  test("verifyEmailCode should count wrong guesses on the code", async () => {
+    const user = await getUser();
+    await skipResendCooldown(user.id);
+    await authService.createEmailVerificationCode(user.id, user.email);
+    const emailVerificationCode = await getCode(user.id);
+    invariant(emailVerificationCode);
+    expect(emailVerificationCode.attempts).toEqual(0);
+
+    const wrongCode =
+      emailVerificationCode.code === "00000000" ? "11111111" : "00000000";
+    await authService.verifyEmailCode(user, wrongCode);
+    expect((await getCode(user.id))?.attempts).toEqual(1);
+
+    const verifyResult = await authService.verifyEmailCode(
+      user,
+      emailVerificationCode.code
+    );
+    expect(verifyResult.type).toEqual("success");
+  });
+});
+
+describe("AuthService roles", () => {
+  // A database of its own, so the first signup is known
+  const database = new Database(":memory:");
+  const rolesAuthService = new AuthService(
+    database,
+    mockEmailService,
+    undefined,
+    "admin@test.com"
+  );
+  const password = generateIdFromEntropySize(10);
+
+  beforeAll(() => {
+    migrate(drizzle(database), { migrationsFolder: "./drizzle" });
+  });
+
+  afterAll(() => {
+    database.close();
+  });
+
+  async function signupAndLogin(email: string): Promise<User> {
+    const signupResult = await rolesAuthService.signup({ email, password });
+    invariant(signupResult.type === "success");
+
+    const loginResult = await rolesAuthService.login({ email, password });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await rolesAuthService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    return validatedSession.data.user;
+  }
+
+  test("the first user to sign up should be an admin", async () => {
+    const first = await signupAndLogin("first@test.com");
+    const second = await signupAndLogin("second@test.com");
+
+    expect(first.roles).toEqual(["admin"]);
+    expect(second.roles).toEqual([]);
+  });
+
+  test("signing up with the admin email should grant admin", async () => {
+    const user = await signupAndLogin("Admin@Test.com");
+
+    expect(user.roles).toEqual(["admin"]);
+  });
+
+  test("hasPermission should follow the user's roles", async () => {
+    const user = await signupAndLogin("member@test.com");
+    expect(rolesAuthService.hasPermission(user, "users:read")).toBe(false);
+
+    await rolesAuthService.grantRole(user.id, "admin");
+    // Granting twice is a no-op
+    await rolesAuthService.grantRole(user.id, "admin");
+
+    const loginResult = await rolesAuthService.login({
+      email: "member@test.com",
+      password,
+    });
+    invariant(loginResult.type === "success");
+    const validatedSession = await rolesAuthService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+
+    const admin = validatedSession.data.user;
+    expect(admin.roles).toEqual(["admin"]);
+    expect(rolesAuthService.hasPermission(admin, "users:read")).toBe(true);
+    expect(rolesAuthService.hasPermission(admin, "users:manage")).toBe(true);
+  });
+});
+
+describe("AuthService user management", () => {
+  // Shared by every account here, so searching for it lists only them
+  const tag = generateIdFromEntropySize(5);
+  const password = generateIdFromEntropySize(10);
+
+  async function createUser(name: string, createdAt: Date) {
+    const email = `${name}-${tag}@test.com`;
+    const signupResult = await authService.signup({ email, password });
+    invariant(signupResult.type === "success");
+
+    const [user] = await dbTest
+      .update(schema.users)
+      .set({ createdAt })
+      .where(eq(schema.users.email, email))
+      .returning();
+    return user;
+  }
+
+  async function login(email: string) {
+    return authService.login({ email, password });
+  }
+
+  afterAll(async () => {
+    const result = await authService.listUsers({ search: tag, pageSize: 100 });
+    for (const user of result.data.users) {
+      await authService.deleteUser(user.id);
+    }
+  });
+
+  test("listUsers should search, filter, sort and paginate", async () => {
+    const first = await createUser("first", new Date("2024-01-01"));
+    const second = await createUser("second", new Date("2024-01-02"));
+    const third = await createUser("third", new Date("2024-01-03"));
+    await authService.forceVerifyEmail(second.id);
+
+    const newest = await authService.listUsers({ search: tag, pageSize: 2 });
+    expect(newest.data.total).toEqual(3);
+    expect(newest.data.pageCount).toEqual(2);
+    expect(newest.data.users.map((user) => user.id)).toEqual([
+      third.id,
+      second.id,
+    ]);
+
+    const lastPage = await authService.listUsers({
+      search: tag,
+      pageSize: 2,
+      page: 2,
+    });
+    expect(lastPage.data.users.map((user) => user.id)).toEqual([first.id]);
+
+    const oldest = await authService.listUsers({ search: tag, sort: "oldest" });
+    expect(oldest.data.users.map((user) => user.id)).toEqual([
+      first.id,
+      second.id,
+      third.id,
+    ]);
+
+    const verified = await authService.listUsers({
+      search: tag,
+      verified: true,
+    });
+    expect(verified.data.users.map((user) => user.id)).toEqual([second.id]);
+
+    const unverified = await authService.listUsers({
+      search: `THIRD-${tag}`,
+      verified: false,
+    });
+    expect(unverified.data.users.map((user) => user.id)).toEqual([third.id]);
+
+    // Wildcards in the search are literal
+    const wildcard = await authService.listUsers({ search: `%${tag}` });
+    expect(wildcard.data.total).toEqual(0);
+  });
+
+  test("forceVerifyEmail should verify the email and drop pending codes", async () => {
+    const user = await createUser("verify", new Date());
+    expect(
+      await dbTest.query.emailVerificationCodes.findFirst({
+        where: eq(schema.emailVerificationCodes.userId, user.id),
+      })
+    ).toBeTruthy();
+
+    const result = await authService.forceVerifyEmail(user.id);
+    expect(result.type).toEqual("success");
+
+    const managedUser = await authService.getManagedUser(user.id);
+    invariant(managedUser.type === "success");
+    expect(managedUser.data.emailVerified).toBe(true);
+    expect(
+      await dbTest.query.emailVerificationCodes.findFirst({
+        where: eq(schema.emailVerificationCodes.userId, user.id),
+      })
+    ).toBeUndefined();
+
+    const missing = await authService.forceVerifyEmail("missing");
+    invariant(missing.type === "failure");
+    expect(missing.error).toEqual("user_not_found");
+  });
+
+  test("revokeAllSessions should end every session of the user", async () => {
+    const user = await createUser("revoke", new Date());
+    const firstLogin = await login(user.email);
+    const secondLogin = await login(user.email);
+    invariant(firstLogin.type === "success");
+    invariant(secondLogin.type === "success");
+
+    await authService.revokeAllSessions(user.id);
+
+    for (const { sessionId } of [firstLogin.data, secondLogin.data]) {
+      const result = await authService.validateSession(sessionId);
+      expect(result.type).toEqual("failure");
+    }
+  });
+
+  test("disabled users should be logged out and refused until enabled", async () => {
+    const user = await createUser("disable", new Date());
+    const loginResult = await login(user.email);
+    invariant(loginResult.type === "success");
+
+    const disableResult = await authService.setUserDisabled(user.id, true);
+    expect(disableResult.type).toEqual("success");
+
+    const validateResult = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    expect(validateResult.type).toEqual("failure");
+
+    const disabledLogin = await login(user.email);
+    invariant(disabledLogin.type === "failure");
+    expect(disabledLogin.error).toEqual("account_disabled");
+
+    // Sessions created some other way don't validate either
+    const session = await authService.lucia.createSession(user.id, {
+      user_agent: null,
+      ip_address: null,
+      created_at: Math.floor(Date.now() / 1000),
+      last_seen_at: Math.floor(Date.now() / 1000),
+    });
+    const sessionResult = await authService.validateSession(session.id);
+    expect(sessionResult.type).toEqual("failure");
+
+    await authService.setUserDisabled(user.id, false);
+    const enabledLogin = await login(user.email);
+    expect(enabledLogin.type).toEqual("success");
+  });
+
+  test("setUserDisabled should drop the tokens that would start a session", async () => {
+    const user = await createUser("tokens", new Date());
+    const magicLinkToken = await requestMagicLinkToken(user.email);
+    const resetToken = await requestPasswordResetToken(user.email);
+
+    await authService.setUserDisabled(user.id, true);
+
+    const consumeResult = await authService.consumeMagicLink(magicLinkToken);
+    invariant(consumeResult.type === "failure");
+    expect(consumeResult.error).toEqual("invalid_token");
+    const validateResult = await authService.validateResetToken(resetToken);
+    invariant(validateResult.type === "failure");
+    expect(validateResult.error).toEqual("invalid_code");
+  });
+
+  test("consumeMagicLink should return account_disabled for a disabled account", async () => {
+    const user = await createUser("magic-link", new Date());
+    const token = await requestMagicLinkToken(user.email);
+
+    // Disabled while the link was on its way
+    await dbTest
+      .update(schema.users)
+      .set({ disabledAt: new Date() })
+      .where(eq(schema.users.id, user.id));
+
+    const consumeResult = await authService.consumeMagicLink(token);
+    invariant(consumeResult.type === "failure");
+    expect(consumeResult.error).toEqual("account_disabled");
+  });
+
+  test("deleteUser should remove the user and everything that belongs to it", async () => {
+    const user = await createUser("delete", new Date());
+    const loginResult = await login(user.email);
+    invariant(loginResult.type === "success");
+
+    const result = await authService.deleteUser(user.id);
+    expect(result.type).toEqual("success");
+
+    expect(
+      await dbTest.query.users.findFirst({
+        where: eq(schema.users.id, user.id),
+      })
+    ).toBeUndefined();
+    expect(
+      await dbTest.query.sessions.findFirst({
+        where: eq(schema.sessions.userId, user.id),
+      })
+    ).toBeUndefined();
+
+    const again = await authService.deleteUser(user.id);
+    invariant(again.type === "failure");
+    expect(again.error).toEqual("user_not_found");
+  });
+});
+
+describe("AuthService account deletion", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  beforeAll(async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+  });
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  async function getUser() {
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    return { user: validatedSession.data.user, ...loginResult.data };
+  }
+
+  test("deleteAccount should require the password", async () => {
+    const { user } = await getUser();
+
+    const result = await authService.deleteAccount(user, "wrong password");
+    invariant(result.type === "failure");
+    expect(result.error).toEqual("invalid_credentials");
+
+    const managedUser = await authService.getManagedUser(user.id);
+    invariant(managedUser.type === "success");
+    expect(managedUser.data.deletedAt).toBeNull();
+  });
+
+  test("deleted accounts should be refused until restored", async () => {
+    const { user, sessionId } = await getUser();
+    const resetToken = await requestPasswordResetToken(randomEmail);
+
+    const now = Date.now();
+    const result = await authService.deleteAccount(user, randomPassword);
+    invariant(result.type === "success");
+    expect(result.data.purgeAt.getTime()).toBeGreaterThanOrEqual(
+      now + authService.accountPurger.gracePeriod.milliseconds()
+    );
+
+    // Logged out everywhere
+    const sessionResult = await authService.validateSession(sessionId);
+    expect(sessionResult.type).toEqual("failure");
+
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("account_disabled");
+
+    // A session that got created anyway is refused with the same reason
+    const session = await authService.lucia.createSession(user.id, {
+      user_agent: null,
+      ip_address: null,
+      created_at: Math.floor(Date.now() / 1000),
+      last_seen_at: Math.floor(Date.now() / 1000),
+    });
+    const validateResult = await authService.validateSession(session.id);
+    invariant(validateResult.type === "failure");
+    expect(validateResult.error).toEqual("account_disabled");
+
+    // Links sent before the deletion are dropped with it
+    const validateTokenResult = await authService.validateResetToken(
+      resetToken
+    );
+    invariant(validateTokenResult.type === "failure");
+    expect(validateTokenResult.error).toEqual("invalid_code");
+
+    const resetResult = await authService.resetPassword(
+      generateIdFromEntropySize(10),
+      resetToken
+    );
+    invariant(resetResult.type === "failure");
+    expect(resetResult.error).toEqual("invalid_code");
+
+    await authService.setUserDisabled(user.id, false);
+    const restoredLogin = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    expect(restoredLogin.type).toEqual("success");
+  });
+
+  test("resetPasswordRequest should not email disabled accounts", async () => {
+    const { user } = await getUser();
+    await authService.setUserDisabled(user.id, true);
+    const sendResetPasswordEmailSpy = spyOn(
+      mockEmailService,
+      "sendResetPasswordEmail"
+    );
+    sendResetPasswordEmailSpy.mockClear();
+
+    const result = await authService.resetPasswordRequest(
+      "https://test.com",
+      randomEmail
+    );
+
+    expect(result.type).toEqual("success");
+    expect(sendResetPasswordEmailSpy).not.toHaveBeenCalled();
+    sendResetPasswordEmailSpy.mockRestore();
+    await authService.setUserDisabled(user.id, false);
+  });
+});
+
+describe("AuthService auth events", () => {
+  const logged: Parameters<AuthEventLoggerInterface["log"]>[0][] = [];
+  const eventLogger: AuthEventLoggerInterface = {
+    log: async (event) => {
+      logged.push(event);
+    },
+    list: async () => [],
+  };
+  const loggingAuthService = new AuthService(
+    sqliteTest,
+    mockEmailService,
+    undefined,
+    null,
+    eventLogger
+  );
+  const client = { userAgent: "Test Browser", ipAddress: "203.0.113.10" };
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+
+  const otherEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const origin = "https://test.com";
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+    await dbTest.delete(schema.users).where(eq(schema.users.email, otherEmail));
+  });
+
+  test("auth methods should log what happened and from where", async () => {
+    await loggingAuthService.signup(
+      { email: randomEmail, password: randomPassword },
+      client
+    );
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+    invariant(user);
+
+    // Signing up again with the same email isn't a signup
+    await loggingAuthService.signup(
+      { email: randomEmail, password: randomPassword },
+      client
+    );
+
+    await loggingAuthService.login(
+      { email: randomEmail, password: "wrong password" },
+      client
+    );
+    const loginResult = await loggingAuthService.login(
+      { email: randomEmail, password: randomPassword },
+      client
+    );
+    invariant(loginResult.type === "success");
+    await loggingAuthService.logout(loginResult.data.sessionId, client);
+
+    await loggingAuthService.resetPasswordRequest(
+      "https://test.com",
+      randomEmail,
+      client
+    );
+
+    expect(logged).toEqual([
+      { type: "signup", userId: user.id, client },
+      {
+        type: "login_failure",
+        userId: user.id,
+        client,
+        detail: "invalid_credentials",
+      },
+      { type: "login_success", userId: user.id, client, detail: "password" },
+      { type: "logout", userId: user.id, client },
+      { type: "reset_requested", userId: user.id, client },
+    ]);
+  });
+
+  test("account changes should be logged, failed password checks included", async () => {
+    await loggingAuthService.signup({
+      email: otherEmail,
+      password: randomPassword,
+    });
+    const user = await findSessionUser(otherEmail);
+    invariant(user);
+    await skipResendCooldown(user.id);
+    const newEmail = `${generateIdFromEntropySize(10)}@test.com`;
+    logged.length = 0;
+
+    await loggingAuthService.requestEmailChange(
+      user,
+      newEmail,
+      "wrong password",
+      client
+    );
+    await loggingAuthService.requestEmailChange(
+      user,
+      newEmail,
+      randomPassword,
+      client
+    );
+    await loggingAuthService.changePassword(
+      user,
+      randomPassword,
+      "a-new-password",
+      client
+    );
+    await loggingAuthService.forceVerifyEmail(user.id, client);
+    await loggingAuthService.setUserDisabled(user.id, true, client);
+    await loggingAuthService.setUserDisabled(user.id, false, client);
+    await loggingAuthService.deleteAccount(user, "a-new-password", client);
+    await loggingAuthService.deleteUser(user.id, client);
+
+    expect(logged).toEqual([
+      {
+        type: "password_confirmation_failure",
+        userId: user.id,
+        client,
+        detail: "email_change:invalid_credentials",
+      },
+      {
+        type: "email_change_requested",
+        userId: user.id,
+        client,
+        detail: newEmail,
+      },
+      { type: "password_changed", userId: user.id, client },
+      { type: "email_verified", userId: user.id, client, detail: "admin" },
+      { type: "account_disabled", userId: user.id, client },
+      { type: "account_enabled", userId: user.id, client },
+      { type: "account_deleted", userId: user.id, client },
+      { type: "account_deleted", userId: user.id, client, detail: "admin" },
+    ]);
+  });
+
+  test("failed magic link and passkey logins should be logged", async () => {
+    await loggingAuthService.signup({
+      email: otherEmail,
+      password: randomPassword,
+    });
+    const user = await findSessionUser(otherEmail);
+    invariant(user);
+
+    const token = await requestMagicLinkToken(otherEmail);
+    await dbTest
+      .update(schema.magicLinkTokens)
+      .set({ expiresAt: createDate(new TimeSpan(-1, "m")) })
+      .where(eq(schema.magicLinkTokens.email, otherEmail));
+
+    const authenticator = new SoftwareAuthenticator(origin);
+    const registrationChallenge =
+      await loggingAuthService.createPasskeyRegistrationChallenge(user);
+    invariant(registrationChallenge.type === "success");
+    await loggingAuthService.verifyPasskeyRegistration(
+      user,
+      origin,
+      await authenticator.register(registrationChallenge.data.challenge)
+    );
+
+    async function loginWithPasskey(authenticator: SoftwareAuthenticator) {
+      const challengeResult =
+        await loggingAuthService.createPasskeyLoginChallenge();
+      invariant(challengeResult.type === "success");
+
+      return loggingAuthService.loginWithPasskey(
+        origin,
+        await authenticator.authenticate(challengeResult.data.challenge),
+        client
+      );
+    }
+
+    const loginResult = await loginWithPasskey(authenticator);
+    invariant(loginResult.type === "success");
+    logged.length = 0;
+
+    await loggingAuthService.consumeMagicLink(token, client);
+    await loggingAuthService.consumeMagicLink(token, client);
+    await loginWithPasskey(
+      new SoftwareAuthenticator(origin, generateIdFromEntropySize(10))
+    );
+
+    const credential = await dbTest.query.webauthnCredentials.findFirst({
+      where: eq(schema.webauthnCredentials.id, authenticator.credentialId),
+    });
+    invariant(credential);
+    const clonedAuthenticator = new SoftwareAuthenticator(
+      origin,
+      authenticator.credentialId
+    );
+    clonedAuthenticator.signCount = credential.signCount - 1;
+    await loginWithPasskey(clonedAuthenticator);
+
+    expect(logged).toEqual([
+      {
+        type: "login_failure",
+        userId: user.id,
+        client,
+        detail: "expired_token",
+      },
+      {
+        type: "login_failure",
+        userId: null,
+        client,
+        detail: "invalid_token",
+      },
+      {
+        type: "login_failure",
+        userId: null,
+        client,
+        detail: "unknown_credential",
+      },
+      {
+        type: "login_failure",
+        userId: user.id,
+        client,
+        detail: "counter_regression",
+      },
+    ]);
+  });
+
+  test("adding a passkey and enabling 2FA should be logged", async () => {
+    const user = await findSessionUser(otherEmail);
+    invariant(user);
+    logged.length = 0;
+
+    const authenticator = new SoftwareAuthenticator(
+      origin,
+      generateIdFromEntropySize(10)
+    );
+    const challengeResult =
+      await loggingAuthService.createPasskeyRegistrationChallenge(user);
+    invariant(challengeResult.type === "success");
+    await loggingAuthService.verifyPasskeyRegistration(
+      user,
+      origin,
+      await authenticator.register(challengeResult.data.challenge),
+      client
+    );
+
+    const enrollmentResult =
+      await loggingAuthService.beginTwoFactorEnrollment(user);
+    invariant(enrollmentResult.type === "success");
+    await loggingAuthService.confirmTwoFactorEnrollment(
+      user,
+      await new TOTPController().generate(
+        decodeBase32(enrollmentResult.data.secret)
+      ),
+      client
+    );
+
+    expect(logged).toEqual([
+      { type: "passkey_added", userId: user.id, client },
+      { type: "two_factor_enabled", userId: user.id, client },
+    ]);
+  });
+});
+
+describe("AuthService security notices", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomPassword = generateIdFromEntropySize(10);
+  const laptop = { userAgent: "Laptop Browser", ipAddress: "203.0.113.10" };
+  const phone = { userAgent: "Phone Browser", ipAddress: "198.51.100.7" };
+
+  beforeAll(async () => {
+    await authService.signup({ email: randomEmail, password: randomPassword });
+  });
+
+  afterAll(async () => {
+    await dbTest
+      .delete(schema.users)
+      .where(eq(schema.users.email, randomEmail));
+  });
+
+  test("login should send a notice for a new device or IP only", async () => {
+    const sendNewSignInEmailSpy = spyOn(mockEmailService, "sendNewSignInEmail");
+    sendNewSignInEmailSpy.mockClear();
+    const credentials = { email: randomEmail, password: randomPassword };
+
+    // Nothing to compare the first login against
+    await authService.login(credentials, laptop);
+    await authService.login(credentials, laptop);
+    expect(sendNewSignInEmailSpy).not.toHaveBeenCalled();
+
+    await authService.login(credentials, phone);
+    expect(sendNewSignInEmailSpy).toHaveBeenCalledTimes(1);
+    const lastCall = sendNewSignInEmailSpy.mock.lastCall;
+    invariant(lastCall);
+    expect(lastCall[0]).toEqual(randomEmail);
+    expect(lastCall[1]).toMatchObject(phone);
+    expect(lastCall[1].signedInAt).toBeInstanceOf(Date);
+
+    await authService.login(credentials, phone);
+    expect(sendNewSignInEmailSpy).toHaveBeenCalledTimes(1);
+    sendNewSignInEmailSpy.mockRestore();
+  });
+
+  test("login should remember a device however many logins ago it was seen", async () => {
+    const user = await findSessionUser(randomEmail);
+    invariant(user);
+    const tablet = { userAgent: "Tablet Browser", ipAddress: "192.0.2.44" };
+    const loginEvent = (client: typeof tablet) => ({
+      type: "login_success" as const,
+      userId: user.id,
+      ...client,
+      detail: "password",
+    });
+    await dbTest
+      .insert(schema.authEvents)
+      .values([loginEvent(tablet), ...Array(60).fill(loginEvent(laptop))]);
+
+    const sendNewSignInEmailSpy = spyOn(mockEmailService, "sendNewSignInEmail");
+    sendNewSignInEmailSpy.mockClear();
+
+    await authService.login(
+      { email: randomEmail, password: randomPassword },
+      tablet
+    );
+
+    expect(sendNewSignInEmailSpy).not.toHaveBeenCalled();
+    sendNewSignInEmailSpy.mockRestore();
+  });
+
+  test("changePassword and resetPassword should send a password changed notice", async () => {
+    const sendPasswordChangedEmailSpy = spyOn(
+      mockEmailService,
+      "sendPasswordChangedEmail"
+    );
+    sendPasswordChangedEmailSpy.mockClear();
+
+    const loginResult = await authService.login({
+      email: randomEmail,
+      password: randomPassword,
+    });
+    invariant(loginResult.type === "success");
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+
+    const changeResult = await authService.changePassword(
+      validatedSession.data.user,
+      randomPassword,
+      "a-new-password"
+    );
+    expect(changeResult.type).toEqual("success");
+    expect(sendPasswordChangedEmailSpy.mock.lastCall).toEqual([randomEmail]);
+
+    const token = await requestPasswordResetToken(randomEmail);
+    const resetResult = await authService.resetPassword(randomPassword, token);
+    expect(resetResult.type).toEqual("success");
+    expect(sendPasswordChangedEmailSpy).toHaveBeenCalledTimes(2);
+    sendPasswordChangedEmailSpy.mockRestore();
+  });
+
+  test("resetPassword should succeed even if the notice can't be queued", async () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementationOnce(
+      () => {}
+    );
+    const token = await requestPasswordResetToken(randomEmail);
+
+    sqliteTest.exec(
+      `CREATE TEMP TRIGGER fail_insert BEFORE INSERT ON "email_outbox"
+       BEGIN SELECT RAISE(ABORT, 'injected fault'); END`
+    );
+    try {
+      const result = await authService.resetPassword(randomPassword, token);
+      expect(result.type).toEqual("success");
+    } finally {
+      sqliteTest.exec("DROP TRIGGER fail_insert");
+    }
+
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    consoleErrorSpy.mockRestore();
+  });
+});
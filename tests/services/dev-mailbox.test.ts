@@ -0,0 +1,88 @@
+import { test, expect, describe } from "bun:test";
+import invariant from "tiny-invariant";
+import { generateIdFromEntropySize } from "lucia";
+
+import { AuthService } from "~/services/auth-service";
+import { DevMailbox } from "~/services/dev-mailbox";
+import { sqliteTest } from "../db";
+import type { AsyncResult, EmailServiceInterface } from "~/lib/types";
+
+class CountingEmailService implements EmailServiceInterface {
+  calls = 0;
+
+  private send = (): AsyncResult<null, "email_send_error"> => {
+    this.calls += 1;
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendConfirmEmail = this.send;
+  sendResetPasswordEmail = this.send;
+  sendMagicLinkEmail = this.send;
+  sendAlreadyRegisteredEmail = this.send;
+  sendEmailChangedEmail = this.send;
+  sendPasswordChangedEmail = this.send;
+  sendNewSignInEmail = this.send;
+}
+
+describe("DevMailbox", () => {
+  test("should capture the code and the rendered email", async () => {
+    const mailbox = new DevMailbox();
+
+    const result = await mailbox.sendConfirmEmail("jane@test.com", "12345678");
+
+    expect(result.type).toEqual("success");
+    const [message] = mailbox.list();
+    invariant(message);
+    expect(message.to).toEqual("jane@test.com");
+    expect(message.code).toEqual("12345678");
+    expect(message.link).toBeNull();
+    expect(message.subject).toEqual("Confirm your email");
+    expect(message.html).toContain("12345678");
+    expect(mailbox.find(message.id)).toEqual(message);
+  });
+
+  test("should pass every email on to the next service", async () => {
+    const next = new CountingEmailService();
+    const mailbox = new DevMailbox(next);
+
+    await mailbox.sendAlreadyRegisteredEmail("jane@test.com");
+    await mailbox.sendEmailChangedEmail("jane@test.com", "john@test.com");
+
+    expect(next.calls).toEqual(2);
+    expect(mailbox.list()).toHaveLength(2);
+  });
+
+  test("list should return the newest emails, up to the limit", async () => {
+    const mailbox = new DevMailbox(undefined, 2);
+
+    await mailbox.sendMagicLinkEmail("a@test.com", "https://test.com/a");
+    await mailbox.sendMagicLinkEmail("b@test.com", "https://test.com/b");
+    await mailbox.sendMagicLinkEmail("c@test.com", "https://test.com/c");
+
+    expect(mailbox.list().map((message) => message.link)).toEqual([
+      "https://test.com/c",
+      "https://test.com/b",
+    ]);
+
+    mailbox.clear();
+    expect(mailbox.list()).toHaveLength(0);
+  });
+
+  test("should capture the links AuthService sends", async () => {
+    const mailbox = new DevMailbox();
+    const authService = new AuthService(sqliteTest, mailbox);
+    const email = `${generateIdFromEntropySize(10)}@test.com`;
+
+    await authService.signup({ email, password: "dev-mailbox-password" });
+    await authService.resetPasswordRequest("https://test.com", email);
+
+    const [reset, confirm] = mailbox.list();
+    invariant(reset?.link && confirm?.code);
+    expect(confirm.to).toEqual(email);
+
+    const token = new URL(reset.link).searchParams.get("token");
+    invariant(token);
+    const result = await authService.resetPassword("new-password-123", token);
+    expect(result.type).toEqual("success");
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  test,
+  expect,
+  describe,
+  setSystemTime,
+  afterEach,
+  spyOn,
+} from "bun:test";
+import invariant from "tiny-invariant";
+import { TimeSpan } from "oslo";
+import { generateIdFromEntropySize } from "lucia";
+import { eq } from "drizzle-orm";
+
+import {
+  EmailOutbox,
+  type OutboxEmail,
+  type OutboxPolicy,
+} from "~/services/email-outbox";
+import { dbTest } from "../db";
+import * as schema from "../../db/schema";
+import type {
+  AsyncResult,
+  EmailServiceInterface,
+  SignInDetails,
+} from "~/lib/types";
+
+// Records what it sends, and fails every send while `failing` is set
+class RecordingEmailService implements EmailServiceInterface {
+  sent: { to: string; detail: string }[] = [];
+  failing = false;
+
+  sendConfirmEmail = (email: string, code: string) => this.record(email, code);
+
+  sendResetPasswordEmail = (email: string, link: string) =>
+    this.record(email, link);
+
+  sendMagicLinkEmail = (email: string, link: string) =>
+    this.record(email, link);
+
+  sendAlreadyRegisteredEmail = (email: string) => this.record(email, "");
+
+  sendEmailChangedEmail = (email: string, newEmail: string) =>
+    this.record(email, newEmail);
+
+  sendPasswordChangedEmail = (email: string) => this.record(email, "");
+
+  sendNewSignInEmail = (email: string, signIn: SignInDetails) =>
+    this.record(email, signIn.signedInAt.toISOString());
+
+  private async record(
+    to: string,
+    detail: string
+  ): AsyncResult<null, "email_send_error"> {
+    if (this.failing) {
+      return { type: "failure", error: "email_send_error" };
+    }
+
+    this.sent.push({ to, detail });
+    return { type: "success", data: null };
+  }
+}
+
+const policy: OutboxPolicy = {
+  maxAttempts: 3,
+  baseDelay: new TimeSpan(10, "s"),
+  lease: new TimeSpan(1, "m"),
+};
+
+const emailService = new RecordingEmailService();
+const outbox = new EmailOutbox(dbTest, emailService, policy);
+
+function randomEmail() {
+  return `${generateIdFromEntropySize(10)}@test.com`;
+}
+
+function enqueue(email: OutboxEmail): number {
+  return dbTest.transaction((tx) => outbox.enqueue(tx, email));
+}
+
+function findMessage(id: number) {
+  return dbTest.query.emailOutbox.findFirst({
+    where: eq(schema.emailOutbox.id, id),
+  });
+}
+
+describe("EmailOutbox", () => {
+  afterEach(() => {
+    emailService.failing = false;
+    setSystemTime();
+  });
+
+  test("deliver should send the email and remove it from the outbox", async () => {
+    const to = randomEmail();
+    const id = enqueue({ type: "confirm_email", to, code: "12345678" });
+
+    await outbox.deliver(id);
+
+    expect(emailService.sent).toContainEqual({ to, detail: "12345678" });
+    expect(await findMessage(id)).toBeUndefined();
+  });
+
+  test("enqueue should be rolled back with its transaction", async () => {
+    const to = randomEmail();
+
+    expect(() =>
+      dbTest.transaction((tx) => {
+        outbox.enqueue(tx, { type: "already_registered", to });
+        throw new Error("rollback");
+      })
+    ).toThrow("rollback");
+
+    const pending = await outbox.list("pending");
+    expect(pending.find((message) => message.recipient === to)).toBeUndefined();
+  });
+
+  test("failed deliveries should be retried with a doubling delay", async () => {
+    const now = new Date("2024-01-01T00:00:00Z");
+    setSystemTime(now);
+    emailService.failing = true;
+
+    const to = randomEmail();
+    const id = enqueue({ type: "magic_link", to, link: "https://test.com" });
+
+    await outbox.deliver(id);
+    let message = await findMessage(id);
+    invariant(message);
+    expect(message.attempts).toEqual(1);
+    expect(message.lastError).toEqual("email_send_error");
+    expect(message.nextAttemptAt.getTime()).toEqual(now.getTime() + 10_000);
+
+    // Not due yet
+    await outbox.deliver(id);
+    message = await findMessage(id);
+    expect(message?.attempts).toEqual(1);
+
+    setSystemTime(new Date(now.getTime() + 10_000));
+    await outbox.deliver(id);
+    message = await findMessage(id);
+    expect(message?.attempts).toEqual(2);
+    expect(message?.nextAttemptAt.getTime()).toEqual(now.getTime() + 30_000);
+
+    emailService.failing = false;
+    setSystemTime(new Date(now.getTime() + 30_000));
+    await outbox.deliver(id);
+    expect(emailService.sent).toContainEqual({
+      to,
+      detail: "https://test.com",
+    });
+    expect(await findMessage(id)).toBeUndefined();
+  });
+
+  test("messages should be marked failed after maxAttempts", async () => {
+    const now = new Date("2024-01-01T00:00:00Z");
+    setSystemTime(now);
+    emailService.failing = true;
+    const consoleErrorSpy = spyOn(console, "error").mockImplementationOnce(
+      () => {}
+    );
+
+    const to = randomEmail();
+    const id = enqueue({ type: "reset_password", to, link: "https://x.com" });
+
+    for (let attempt = 0; attempt < policy.maxAttempts; attempt++) {
+      setSystemTime(new Date(now.getTime() + attempt * 60_000));
+      await outbox.deliver(id);
+    }
+
+    const message = await findMessage(id);
+    invariant(message);
+    expect(message.status).toEqual("failed");
+    expect(message.attempts).toEqual(policy.maxAttempts);
+    expect(message.payload).toBeNull();
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    consoleErrorSpy.mockRestore();
+
+    const failed = await outbox.list("failed");
+    const entry = failed.find((message) => message.id === id);
+    invariant(entry);
+    expect(entry.recipient).toEqual(to);
+    expect(entry.lastError).toEqual("email_send_error");
+    expect(entry).not.toHaveProperty("payload");
+
+    // Failed messages are never picked up again
+    emailService.failing = false;
+    setSystemTime(new Date(now.getTime() + 3_600_000));
+    await outbox.deliver(id);
+    expect(emailService.sent.find((sent) => sent.to === to)).toBeUndefined();
+  });
+
+  test("a message should only be sent once when delivered concurrently", async () => {
+    const to = randomEmail();
+    const id = enqueue({ type: "email_changed", to, newEmail: "new@test.com" });
+
+    await Promise.all([outbox.deliver(id), outbox.deliver(id)]);
+
+    expect(emailService.sent.filter((sent) => sent.to === to)).toHaveLength(1);
+  });
+
+  test("deliverDue should only send messages that are due", async () => {
+    const now = new Date("2024-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    const dueTo = randomEmail();
+    const laterTo = randomEmail();
+    enqueue({ type: "already_registered", to: dueTo });
+    const laterId = enqueue({ type: "already_registered", to: laterTo });
+    await dbTest
+      .update(schema.emailOutbox)
+      .set({ nextAttemptAt: new Date(now.getTime() + 60_000) })
+      .where(eq(schema.emailOutbox.id, laterId));
+
+    await outbox.deliverDue();
+
+    expect(emailService.sent.map((sent) => sent.to)).toContain(dueTo);
+    expect(emailService.sent.map((sent) => sent.to)).not.toContain(laterTo);
+
+    const pending = await outbox.list("pending");
+    expect(pending.map((message) => message.id)).toContain(laterId);
+  });
+});
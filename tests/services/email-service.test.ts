@@ -0,0 +1,258 @@
+import { test, expect, describe, spyOn, afterAll } from "bun:test";
+import invariant from "tiny-invariant";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  DevelopmentTransport,
+  SmtpTransport,
+} from "~/services/email-transports";
+import { TemplateEmailService } from "~/services/template-email-service";
+
+type ReceivedMessage = {
+  auth: string | null;
+  from: string;
+  to: string[];
+  data: string;
+};
+
+// Speaks just enough SMTP to accept a message and record what it was sent
+function startSmtpStub({ rejectRecipients = false } = {}) {
+  const received: ReceivedMessage[] = [];
+
+  type Session = {
+    buffer: string;
+    auth: string | null;
+    message: ReceivedMessage | null;
+    readingData: boolean;
+  };
+
+  const server = Bun.listen<Session>({
+    hostname: "127.0.0.1",
+    port: 0,
+    socket: {
+      open(socket) {
+        socket.data = {
+          buffer: "",
+          auth: null,
+          message: null,
+          readingData: false,
+        };
+        socket.write("220 stub ESMTP ready\r\n");
+      },
+      data(socket, chunk) {
+        const session = socket.data;
+        session.buffer += chunk.toString();
+
+        // Everything up to the lone dot is the message
+        if (session.readingData && session.message) {
+          const end = session.buffer.indexOf("\r\n.\r\n");
+          if (end === -1) {
+            return;
+          }
+          session.message.data = session.buffer.slice(0, end + 2);
+          session.buffer = session.buffer.slice(end + 5);
+          session.readingData = false;
+          received.push(session.message);
+          socket.write("250 Queued\r\n");
+        }
+
+        const lines = session.buffer.split("\r\n");
+        session.buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const [verb] = line.split(" ");
+          if (verb === "EHLO") {
+            socket.write("250-stub greets you\r\n250 AUTH PLAIN LOGIN\r\n");
+          } else if (verb === "AUTH") {
+            session.auth = line;
+            socket.write("235 Authenticated\r\n");
+          } else if (verb === "MAIL") {
+            session.message = {
+              auth: session.auth,
+              from: line,
+              to: [],
+              data: "",
+            };
+            socket.write("250 OK\r\n");
+          } else if (verb === "RCPT" && !rejectRecipients) {
+            session.message?.to.push(line);
+            socket.write("250 OK\r\n");
+          } else if (verb === "RCPT") {
+            socket.write("550 No such user\r\n");
+          } else if (verb === "DATA") {
+            session.readingData = true;
+            socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+          } else if (verb === "QUIT") {
+            socket.write("221 Bye\r\n");
+            socket.end();
+          } else {
+            socket.write("502 Command not implemented\r\n");
+          }
+        }
+      },
+    },
+  });
+
+  return { server, received };
+}
+
+// Returns the decoded body of the part with the given content type
+function decodePart(data: string, contentType: string): string {
+  const start = data.indexOf(`Content-Type: ${contentType}`);
+  invariant(start !== -1);
+  const bodyStart = data.indexOf("\r\n\r\n", start) + 4;
+  const bodyEnd = data.indexOf("\r\n--", bodyStart);
+
+  return Buffer.from(
+    data.slice(bodyStart, bodyEnd).replace(/\r\n/g, ""),
+    "base64"
+  ).toString();
+}
+
+describe("TemplateEmailService with SmtpTransport", () => {
+  const stub = startSmtpStub();
+  const rejectingStub = startSmtpStub({ rejectRecipients: true });
+
+  afterAll(() => {
+    stub.server.stop(true);
+    rejectingStub.server.stop(true);
+  });
+
+  test("sendConfirmEmail should deliver an HTML and a text part", async () => {
+    const emailService = new TemplateEmailService(
+      new SmtpTransport({
+        host: "127.0.0.1",
+        port: stub.server.port,
+        user: "mailer",
+        password: "secret",
+        allowInsecureAuth: true,
+      }),
+      "Remix Bun <no-reply@test.com>"
+    );
+
+    const result = await emailService.sendConfirmEmail(
+      "jane@test.com",
+      "12345678"
+    );
+
+    expect(result.type).toEqual("success");
+    const message = stub.received.at(-1);
+    invariant(message);
+
+    const credentials = Buffer.from(
+      message.auth?.split(" ")[2] ?? "",
+      "base64"
+    ).toString();
+    expect(credentials).toEqual("\0mailer\0secret");
+    expect(message.from).toEqual("MAIL FROM:<no-reply@test.com>");
+    expect(message.to).toEqual(["RCPT TO:<jane@test.com>"]);
+
+    expect(message.data).toContain("From: Remix Bun <no-reply@test.com>");
+    expect(message.data).toContain("To: jane@test.com");
+    expect(message.data).toContain("Subject: Confirm your email");
+    expect(decodePart(message.data, "text/plain")).toContain("12345678");
+
+    const html = decodePart(message.data, "text/html");
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("12345678");
+  });
+
+  test("templates should escape values in the HTML part", async () => {
+    const emailService = new TemplateEmailService(
+      new SmtpTransport({ host: "127.0.0.1", port: stub.server.port }),
+      "no-reply@test.com"
+    );
+
+    await emailService.sendEmailChangedEmail(
+      "jane@test.com",
+      "<script>@test.com"
+    );
+
+    const message = stub.received.at(-1);
+    invariant(message);
+    const html = decodePart(message.data, "text/html");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;@test.com");
+  });
+
+  test("send should return email_send_error if the server refuses", async () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementationOnce(
+      () => {}
+    );
+    const emailService = new TemplateEmailService(
+      new SmtpTransport({ host: "127.0.0.1", port: rejectingStub.server.port }),
+      "no-reply@test.com"
+    );
+
+    const result = await emailService.sendMagicLinkEmail(
+      "nobody@test.com",
+      "https://test.com/magic-link?token=abc"
+    );
+
+    expect(result.type).toEqual("failure");
+    invariant(result.type === "failure");
+    expect(result.error).toEqual("email_send_error");
+    expect(rejectingStub.received).toHaveLength(0);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test("send should not log in without TLS", async () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementationOnce(
+      () => {}
+    );
+    const sentBefore = stub.received.length;
+    const emailService = new TemplateEmailService(
+      new SmtpTransport({
+        host: "127.0.0.1",
+        port: stub.server.port,
+        user: "mailer",
+        password: "secret",
+      }),
+      "no-reply@test.com"
+    );
+
+    const result = await emailService.sendAlreadyRegisteredEmail(
+      "jane@test.com"
+    );
+
+    expect(result.type).toEqual("failure");
+    expect(stub.received).toHaveLength(sentBefore);
+    consoleErrorSpy.mockRestore();
+  });
+});
+
+describe("DevelopmentTransport", () => {
+  test("send should save the message as an .eml file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "emails-"));
+    const consoleLogSpy = spyOn(console, "log").mockImplementationOnce(
+      () => {}
+    );
+
+    try {
+      const emailService = new TemplateEmailService(
+        new DevelopmentTransport(directory),
+        "no-reply@test.com"
+      );
+
+      await emailService.sendResetPasswordEmail(
+        "jane@test.com",
+        "https://test.com/reset-password?token=abc"
+      );
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toEndWith(".eml");
+
+      const data = await Bun.file(join(directory, files[0])).text();
+      expect(data).toContain("Subject: Reset your password");
+      expect(decodePart(data, "text/plain")).toContain(
+        "https://test.com/reset-password?token=abc"
+      );
+    } finally {
+      consoleLogSpy.mockRestore();
+      await rm(directory, { recursive: true });
+    }
+  });
+});
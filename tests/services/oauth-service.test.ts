@@ -0,0 +1,477 @@
+import { test, expect, describe, afterAll } from "bun:test";
+import invariant from "tiny-invariant";
+import { generateIdFromEntropySize } from "lucia";
+import { eq } from "drizzle-orm";
+import { sha256 } from "oslo/crypto";
+import { base64url } from "oslo/encoding";
+
+import { AuthService } from "~/services/auth-service";
+import { OAuthService } from "~/services/oauth-service";
+import { OIDCProvider } from "~/services/oauth-providers";
+import { sqliteTest, dbTest } from "../db";
+import * as schema from "../../db/schema";
+import type {
+  AsyncResult,
+  EmailServiceInterface,
+  OAuthProfile,
+  SignInDetails,
+} from "~/lib/types";
+
+class MockEmailService implements EmailServiceInterface {
+  sendConfirmEmail = (_: string): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendResetPasswordEmail = (
+    _email: string,
+    _verificationLink: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendMagicLinkEmail = (
+    _email: string,
+    _magicLink: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendAlreadyRegisteredEmail = (
+    _email: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendEmailChangedEmail = (
+    _email: string,
+    _newEmail: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendPasswordChangedEmail = (
+    _email: string
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+
+  sendNewSignInEmail = (
+    _email: string,
+    _signIn: SignInDetails
+  ): AsyncResult<null, "email_send_error"> => {
+    return Promise.resolve({ type: "success", data: null });
+  };
+}
+
+type MockUser = { sub: string; email?: string; email_verified?: boolean };
+
+// A tiny OpenID Connect provider: codes are handed out by the test instead of
+// an authorize page, everything else goes over HTTP like a real provider.
+const codes = new Map<string, { codeChallenge: string; user: MockUser }>();
+const accessTokens = new Map<string, MockUser>();
+
+const mockProvider = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const url = new URL(request.url);
+
+    if (url.pathname === "/token" && request.method === "POST") {
+      const body = new URLSearchParams(await request.text());
+      const issued = codes.get(body.get("code") ?? "");
+      const codeVerifier = body.get("code_verifier") ?? "";
+      const codeChallenge = base64url.encode(
+        new Uint8Array(await sha256(new TextEncoder().encode(codeVerifier))),
+        { includePadding: false }
+      );
+
+      if (
+        issued == null ||
+        issued.codeChallenge !== codeChallenge ||
+        body.get("client_secret") !== "secret"
+      ) {
+        return Response.json({ error: "invalid_grant" }, { status: 400 });
+      }
+
+      codes.delete(body.get("code") ?? "");
+      const accessToken = generateIdFromEntropySize(10);
+      accessTokens.set(accessToken, issued.user);
+      return Response.json({ access_token: accessToken, token_type: "bearer" });
+    }
+
+    if (url.pathname === "/userinfo") {
+      const accessToken = request.headers
+        .get("Authorization")
+        ?.replace("Bearer ", "");
+      const user = accessTokens.get(accessToken ?? "");
+      if (user == null) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      return Response.json(user);
+    }
+
+    return new Response("Not Found", { status: 404 });
+  },
+});
+
+const mockProviderUrl = `http://localhost:${mockProvider.port}`;
+
+const oauthService = new OAuthService([
+  new OIDCProvider({
+    id: "mock",
+    name: "Mock",
+    clientId: "client",
+    clientSecret: "secret",
+    redirectURI: "https://test.com/auth/mock/callback",
+    authorizeEndpoint: `${mockProviderUrl}/authorize`,
+    tokenEndpoint: `${mockProviderUrl}/token`,
+    userInfoEndpoint: `${mockProviderUrl}/userinfo`,
+  }),
+]);
+const authService = new AuthService(sqliteTest, new MockEmailService());
+
+// Plays the user's browser: start the login, "approve" it at the provider and
+// come back to the callback with the code and state
+async function authorize(
+  user: MockUser
+): AsyncResult<
+  OAuthProfile,
+  "unknown_provider" | "invalid_state" | "oauth_error"
+> {
+  const authorization = await oauthService.createAuthorization("mock");
+  invariant(authorization.type === "success");
+
+  const { url, state, codeVerifier } = authorization.data;
+  const code = generateIdFromEntropySize(10);
+  codes.set(code, {
+    codeChallenge: url.searchParams.get("code_challenge") ?? "",
+    user,
+  });
+
+  return oauthService.validateCallback("mock", {
+    code,
+    state: url.searchParams.get("state"),
+    storedState: state,
+    codeVerifier,
+  });
+}
+
+describe("OAuthService", () => {
+  const randomEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const linkedEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const squattedEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const disabledEmail = `${generateIdFromEntropySize(10)}@test.com`;
+  const randomSub = generateIdFromEntropySize(10);
+
+  afterAll(async () => {
+    mockProvider.stop(true);
+    for (const email of [
+      randomEmail,
+      linkedEmail,
+      squattedEmail,
+      disabledEmail,
+    ]) {
+      await dbTest.delete(schema.users).where(eq(schema.users.email, email));
+    }
+  });
+
+  test("createAuthorization should return a PKCE authorization url", async () => {
+    const authorization = await oauthService.createAuthorization("mock");
+
+    expect(authorization.type).toEqual("success");
+    invariant(authorization.type === "success");
+
+    const { url, state } = authorization.data;
+    expect(url.origin + url.pathname).toEqual(`${mockProviderUrl}/authorize`);
+    expect(url.searchParams.get("client_id")).toEqual("client");
+    expect(url.searchParams.get("state")).toEqual(state);
+    expect(url.searchParams.get("code_challenge_method")).toEqual("S256");
+    expect(url.searchParams.get("code_challenge")).toBeTruthy();
+    expect(url.searchParams.get("redirect_uri")).toEqual(
+      "https://test.com/auth/mock/callback"
+    );
+  });
+
+  test("createAuthorization should return unknown_provider for unknown providers", async () => {
+    const authorization = await oauthService.createAuthorization("fake");
+
+    expect(authorization.type).toEqual("failure");
+    invariant(authorization.type === "failure");
+    expect(authorization.error).toEqual("unknown_provider");
+  });
+
+  test("validateCallback should return invalid_state if state doesn't match", async () => {
+    const authorization = await oauthService.createAuthorization("mock");
+    invariant(authorization.type === "success");
+
+    const result = await oauthService.validateCallback("mock", {
+      code: "code",
+      state: "forged",
+      storedState: authorization.data.state,
+      codeVerifier: authorization.data.codeVerifier,
+    });
+
+    expect(result.type).toEqual("failure");
+    invariant(result.type === "failure");
+    expect(result.error).toEqual("invalid_state");
+  });
+
+  test("validateCallback should return oauth_error if the provider rejects the code", async () => {
+    const authorization = await oauthService.createAuthorization("mock");
+    invariant(authorization.type === "success");
+
+    const result = await oauthService.validateCallback("mock", {
+      code: "never-issued",
+      state: authorization.data.state,
+      storedState: authorization.data.state,
+      codeVerifier: authorization.data.codeVerifier,
+    });
+
+    expect(result.type).toEqual("failure");
+    invariant(result.type === "failure");
+    expect(result.error).toEqual("oauth_error");
+  });
+
+  test("validateCallback should return the provider profile", async () => {
+    const result = await authorize({
+      sub: randomSub,
+      email: randomEmail,
+      email_verified: true,
+    });
+
+    expect(result.type).toEqual("success");
+    invariant(result.type === "success");
+    expect(result.data).toEqual({
+      providerUserId: randomSub,
+      email: randomEmail,
+      emailVerified: true,
+    });
+  });
+
+  test("loginWithOAuth should create a user without a password", async () => {
+    const profileResult = await authorize({
+      sub: randomSub,
+      email: randomEmail,
+      email_verified: true,
+    });
+    invariant(profileResult.type === "success");
+
+    const loginResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: profileResult.data,
+    });
+
+    expect(loginResult.type).toEqual("success");
+
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, randomEmail),
+    });
+    invariant(user);
+
+    expect(user.passwordHash).toBeNull();
+    expect(user.emailVerified).toEqual(true);
+
+    const oauthAccount = await dbTest.query.oauthAccounts.findFirst({
+      where: eq(schema.oauthAccounts.userId, user.id),
+    });
+    expect(oauthAccount?.providerUserId).toEqual(randomSub);
+
+    // No password to log in with
+    const passwordLoginResult = await authService.login({
+      email: randomEmail,
+      password: "any-password",
+    });
+    invariant(passwordLoginResult.type === "failure");
+    expect(passwordLoginResult.error).toEqual("invalid_credentials");
+  });
+
+  test("loginWithOAuth should log into the linked user on later logins", async () => {
+    const profileResult = await authorize({
+      sub: randomSub,
+      email: "changed@test.com",
+    });
+    invariant(profileResult.type === "success");
+
+    const loginResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: profileResult.data,
+    });
+    invariant(loginResult.type === "success");
+
+    const validatedSession = await authService.validateSession(
+      loginResult.data.sessionId
+    );
+    invariant(validatedSession.type === "success");
+    expect(validatedSession.data.user.email).toEqual(randomEmail);
+  });
+
+  test("loginWithOAuth should link an existing user with the same verified email", async () => {
+    await authService.signup({ email: linkedEmail, password: "password" });
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, linkedEmail),
+    });
+    invariant(user);
+
+    const unverifiedProfile = await authorize({
+      sub: generateIdFromEntropySize(10),
+      email: linkedEmail,
+      email_verified: false,
+    });
+    invariant(unverifiedProfile.type === "success");
+
+    const unverifiedResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: unverifiedProfile.data,
+    });
+    invariant(unverifiedResult.type === "failure");
+    expect(unverifiedResult.error).toEqual("email_not_verified");
+
+    const verifiedProfile = await authorize({
+      sub: generateIdFromEntropySize(10),
+      email: linkedEmail,
+      email_verified: true,
+    });
+    invariant(verifiedProfile.type === "success");
+
+    const verifiedResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: verifiedProfile.data,
+    });
+    expect(verifiedResult.type).toEqual("success");
+
+    const oauthAccounts = await dbTest.query.oauthAccounts.findMany({
+      where: eq(schema.oauthAccounts.userId, user.id),
+    });
+    expect(oauthAccounts).toHaveLength(1);
+
+    const updatedUser = await dbTest.query.users.findFirst({
+      where: eq(schema.users.id, user.id),
+    });
+    expect(updatedUser?.emailVerified).toEqual(true);
+    // Whoever set that password never proved they own the address
+    expect(updatedUser?.passwordHash).toBeNull();
+  });
+
+  test("loginWithOAuth should lock the squatter out of an unverified account it claims", async () => {
+    // Someone signs up with an address that isn't theirs and secures the
+    // account with everything they can
+    await authService.signup({ email: squattedEmail, password: "password" });
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, squattedEmail),
+    });
+    invariant(user);
+    await dbTest
+      .insert(schema.totpCredentials)
+      .values({ userId: user.id, secret: "00", enabledAt: new Date() });
+    await dbTest
+      .insert(schema.recoveryCodes)
+      .values({ userId: user.id, codeHash: "hash" });
+    await dbTest.insert(schema.webauthnCredentials).values({
+      id: generateIdFromEntropySize(10),
+      userId: user.id,
+      publicKey: "key",
+      signCount: 0,
+    });
+    const squatterSub = generateIdFromEntropySize(10);
+    await dbTest.insert(schema.oauthAccounts).values({
+      providerId: "mock",
+      providerUserId: squatterSub,
+      userId: user.id,
+    });
+    await authService.grantRole(user.id, "admin");
+
+    const ownerSub = generateIdFromEntropySize(10);
+    const ownerProfile = await authorize({
+      sub: ownerSub,
+      email: squattedEmail,
+      email_verified: true,
+    });
+    invariant(ownerProfile.type === "success");
+    const ownerResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: ownerProfile.data,
+    });
+    expect(ownerResult.type).toEqual("success");
+
+    const passwordLoginResult = await authService.login({
+      email: squattedEmail,
+      password: "password",
+    });
+    invariant(passwordLoginResult.type === "failure");
+    expect(passwordLoginResult.error).toEqual("invalid_credentials");
+
+    const totpCredential = await dbTest.query.totpCredentials.findFirst({
+      where: eq(schema.totpCredentials.userId, user.id),
+    });
+    expect(totpCredential).toBeUndefined();
+    const recoveryCodes = await dbTest.query.recoveryCodes.findMany({
+      where: eq(schema.recoveryCodes.userId, user.id),
+    });
+    expect(recoveryCodes).toHaveLength(0);
+    const passkeys = await dbTest.query.webauthnCredentials.findMany({
+      where: eq(schema.webauthnCredentials.userId, user.id),
+    });
+    expect(passkeys).toHaveLength(0);
+    const roles = await dbTest.query.userRoles.findMany({
+      where: eq(schema.userRoles.userId, user.id),
+    });
+    expect(roles).toHaveLength(0);
+
+    const oauthAccounts = await dbTest.query.oauthAccounts.findMany({
+      where: eq(schema.oauthAccounts.userId, user.id),
+    });
+    expect(oauthAccounts.map((account) => account.providerUserId)).toEqual([
+      ownerSub,
+    ]);
+  });
+
+  test("loginWithOAuth should leave a disabled account it refuses untouched", async () => {
+    await authService.signup({ email: disabledEmail, password: "password" });
+    const user = await dbTest.query.users.findFirst({
+      where: eq(schema.users.email, disabledEmail),
+    });
+    invariant(user);
+    await authService.setUserDisabled(user.id, true);
+
+    const profileResult = await authorize({
+      sub: generateIdFromEntropySize(10),
+      email: disabledEmail,
+      email_verified: true,
+    });
+    invariant(profileResult.type === "success");
+    const loginResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: profileResult.data,
+    });
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("account_disabled");
+
+    const oauthAccounts = await dbTest.query.oauthAccounts.findMany({
+      where: eq(schema.oauthAccounts.userId, user.id),
+    });
+    expect(oauthAccounts).toHaveLength(0);
+    const unchangedUser = await dbTest.query.users.findFirst({
+      where: eq(schema.users.id, user.id),
+    });
+    expect(unchangedUser?.emailVerified).toEqual(false);
+    expect(unchangedUser?.passwordHash).toEqual(user.passwordHash);
+  });
+
+  test("loginWithOAuth should return email_missing without an email", async () => {
+    const profileResult = await authorize({
+      sub: generateIdFromEntropySize(10),
+    });
+    invariant(profileResult.type === "success");
+
+    const loginResult = await authService.loginWithOAuth({
+      providerId: "mock",
+      profile: profileResult.data,
+    });
+
+    expect(loginResult.type).toEqual("failure");
+    invariant(loginResult.type === "failure");
+    expect(loginResult.error).toEqual("email_missing");
+  });
+});
@@ -0,0 +1,192 @@
+import { test, expect, describe, afterAll, spyOn } from "bun:test";
+import invariant from "tiny-invariant";
+import { TimeSpan } from "oslo";
+import { generateIdFromEntropySize } from "lucia";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { PasswordPolicy } from "~/services/password-policy";
+import {
+  FileBreachedPasswordSource,
+  PwnedPasswordsSource,
+} from "~/services/breached-passwords";
+
+const breachedPasswords = new FileBreachedPasswordSource(
+  "./tests/fixtures/breached-passwords.txt"
+);
+const policy = new PasswordPolicy(
+  { minLength: 8, maxLength: 20 },
+  breachedPasswords
+);
+
+describe("PasswordPolicy", () => {
+  test("check should accept a reasonable password", async () => {
+    const weakPassword = await policy.check("tidy-jigsaw-41", "jane@test.com");
+
+    expect(weakPassword).toBeNull();
+  });
+
+  test("check should return too_short and too_long with the limits", async () => {
+    const tooShort = await policy.check("abc", "jane@test.com");
+    expect(tooShort).toEqual({
+      reasons: ["too_short"],
+      minLength: 8,
+      maxLength: 20,
+    });
+
+    const tooLong = await policy.check("a".repeat(21), "jane@test.com");
+    expect(tooLong?.reasons).toEqual(["too_long"]);
+  });
+
+  test("check should count characters rather than UTF-16 code units", async () => {
+    // 7 emoji are 14 code units
+    const weakPassword = await policy.check("🔑".repeat(7), "jane@test.com");
+
+    expect(weakPassword?.reasons).toEqual(["too_short"]);
+  });
+
+  test("check should return contains_email for the email or its local part", async () => {
+    const withEmail = await policy.check("JANE@test.com!", "jane@test.com");
+    expect(withEmail?.reasons).toEqual(["contains_email"]);
+
+    const withLocalPart = await policy.check("jane1990!", " Jane@test.com");
+    expect(withLocalPart?.reasons).toEqual(["contains_email"]);
+  });
+
+  test("check should return breached for passwords in the source", async () => {
+    const weakPassword = await policy.check("password123", "jane@test.com");
+
+    expect(weakPassword?.reasons).toEqual(["breached"]);
+  });
+
+  test("check should skip the breached check without a source", async () => {
+    const weakPassword = await new PasswordPolicy().check(
+      "password123",
+      "jane@test.com"
+    );
+
+    expect(weakPassword).toBeNull();
+  });
+
+  test("check should accept the password if the source fails", async () => {
+    const failingPolicy = new PasswordPolicy(undefined, {
+      getRange: () => Promise.reject(new Error("offline")),
+    });
+
+    const weakPassword = await failingPolicy.check(
+      "password123",
+      "jane@test.com"
+    );
+
+    expect(weakPassword).toBeNull();
+  });
+
+  test("exceedsMaxLength should only flag passwords over the limit", () => {
+    expect(policy.exceedsMaxLength("a".repeat(20))).toEqual(false);
+    expect(policy.exceedsMaxLength("a".repeat(21))).toEqual(true);
+  });
+});
+
+describe("FileBreachedPasswordSource", () => {
+  const path = join(tmpdir(), `breached-${generateIdFromEntropySize(10)}.txt`);
+
+  afterAll(async () => {
+    await rm(path, { force: true });
+  });
+
+  test("getRange should read the file again after a failed load", async () => {
+    const source = new FileBreachedPasswordSource(path);
+
+    await expect(source.getRange("CBFDA")).rejects.toThrow();
+
+    await Bun.write(path, "CBFDAC6008F9CAB4083784CBD1874F76618D2A97:251682\n");
+    const range = await source.getRange("CBFDA");
+
+    expect(range.get("C6008F9CAB4083784CBD1874F76618D2A97")).toEqual(251682);
+  });
+});
+
+describe("PwnedPasswordsSource", () => {
+  const requestedPrefixes: string[] = [];
+
+  // Answers like the real range API, padding included
+  const mockApi = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (pathname.startsWith("/hanging/")) {
+        await Bun.sleep(1000);
+        return new Response("Too late");
+      }
+
+      const prefix = pathname.split("/").pop() ?? "";
+      requestedPrefixes.push(prefix);
+
+      if (request.headers.get("Add-Padding") !== "true") {
+        return new Response("Padding expected", { status: 400 });
+      }
+
+      // Suffix of SHA-1("password123"), plus a padding entry
+      return new Response(
+        [
+          "C6008F9CAB4083784CBD1874F76618D2A97:251682",
+          "0018A45C4D1DEF81644B54AB7F969B88D65:0",
+        ].join("\r\n")
+      );
+    },
+  });
+
+  afterAll(() => {
+    mockApi.stop(true);
+  });
+
+  test("getRange should return the counts without padding entries", async () => {
+    const source = new PwnedPasswordsSource(
+      `http://localhost:${mockApi.port}/range`
+    );
+
+    const range = await source.getRange("CBFDA");
+
+    expect(requestedPrefixes).toEqual(["CBFDA"]);
+    expect(Array.from(range.entries())).toEqual([
+      ["C6008F9CAB4083784CBD1874F76618D2A97", 251682],
+    ]);
+  });
+
+  test("PasswordPolicy should only send the hash prefix", async () => {
+    const source = new PwnedPasswordsSource(
+      `http://localhost:${mockApi.port}/range`
+    );
+    const remotePolicy = new PasswordPolicy(undefined, source);
+
+    const weakPassword = await remotePolicy.check(
+      "password123",
+      "jane@test.com"
+    );
+
+    invariant(weakPassword);
+    expect(weakPassword.reasons).toEqual(["breached"]);
+    expect(requestedPrefixes.at(-1)).toEqual("CBFDA");
+  });
+
+  test("PasswordPolicy should accept the password if the API hangs", async () => {
+    const consoleErrorSpy = spyOn(console, "error").mockImplementationOnce(
+      () => {}
+    );
+    const source = new PwnedPasswordsSource(
+      `http://localhost:${mockApi.port}/hanging`,
+      new TimeSpan(50, "ms")
+    );
+    const remotePolicy = new PasswordPolicy(undefined, source);
+
+    const weakPassword = await remotePolicy.check(
+      "password123",
+      "jane@test.com"
+    );
+
+    expect(weakPassword).toBeNull();
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,149 @@
+import { test, expect, describe, setSystemTime, afterEach } from "bun:test";
+import { TimeSpan } from "oslo";
+import { generateIdFromEntropySize } from "lucia";
+
+import { RateLimiter, type RateLimitPolicy } from "~/services/rate-limiter";
+import { dbTest } from "../db";
+
+const policy: RateLimitPolicy = {
+  freeAttempts: 2,
+  baseDelay: new TimeSpan(10, "s"),
+  maxAttempts: 4,
+  lockout: new TimeSpan(15, "m"),
+  window: new TimeSpan(1, "h"),
+};
+
+const rateLimiter = new RateLimiter(dbTest, "test", policy);
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("check should allow a key without failures", async () => {
+    const key = generateIdFromEntropySize(10);
+
+    expect(await rateLimiter.check([key])).toBeNull();
+  });
+
+  test("check should allow failures up to freeAttempts", async () => {
+    const key = generateIdFromEntropySize(10);
+
+    await rateLimiter.recordFailure([key]);
+    expect(await rateLimiter.check([key])).toBeNull();
+
+    await rateLimiter.recordFailure([key]);
+    expect(await rateLimiter.check([key])).toBeTruthy();
+  });
+
+  test("delay should double with every failure past freeAttempts", async () => {
+    const key = generateIdFromEntropySize(10);
+    const now = new Date("2024-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    await rateLimiter.recordFailure([key]);
+    await rateLimiter.recordFailure([key]);
+    expect((await rateLimiter.check([key]))?.getTime()).toEqual(
+      now.getTime() + 10_000
+    );
+
+    await rateLimiter.recordFailure([key]);
+    expect((await rateLimiter.check([key]))?.getTime()).toEqual(
+      now.getTime() + 20_000
+    );
+
+    setSystemTime(new Date(now.getTime() + 20_000));
+    expect(await rateLimiter.check([key])).toBeNull();
+  });
+
+  test("maxAttempts failures should lock the key out", async () => {
+    const key = generateIdFromEntropySize(10);
+    const now = new Date("2024-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    for (let i = 0; i < policy.maxAttempts; i++) {
+      await rateLimiter.recordFailure([key]);
+    }
+
+    expect((await rateLimiter.check([key]))?.getTime()).toEqual(
+      now.getTime() + policy.lockout.milliseconds()
+    );
+
+    // Once the lockout is over the key starts from scratch
+    setSystemTime(new Date(now.getTime() + policy.lockout.milliseconds()));
+    expect(await rateLimiter.check([key])).toBeNull();
+
+    await rateLimiter.recordFailure([key]);
+    expect(await rateLimiter.check([key])).toBeNull();
+  });
+
+  test("failures older than the window should be forgotten", async () => {
+    const key = generateIdFromEntropySize(10);
+    const now = new Date("2024-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    await rateLimiter.recordFailure([key]);
+    await rateLimiter.recordFailure([key]);
+
+    setSystemTime(new Date(now.getTime() + policy.window.milliseconds()));
+    await rateLimiter.recordFailure([key]);
+    expect(await rateLimiter.check([key])).toBeNull();
+  });
+
+  test("check should return the latest retry time across keys", async () => {
+    const limitedKey = generateIdFromEntropySize(10);
+    const freeKey = generateIdFromEntropySize(10);
+
+    await rateLimiter.recordFailure([limitedKey]);
+    await rateLimiter.recordFailure([limitedKey]);
+
+    expect(await rateLimiter.check([freeKey, limitedKey])).toBeTruthy();
+  });
+
+  test("reserve should count parallel attempts before they're made", async () => {
+    const key = generateIdFromEntropySize(10);
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => rateLimiter.reserve([key]))
+    );
+
+    expect(results.filter((retryAfter) => retryAfter == null)).toHaveLength(
+      policy.freeAttempts
+    );
+    expect(await rateLimiter.check([key])).toBeTruthy();
+  });
+
+  test("reserve should lock the key out at maxAttempts", async () => {
+    const key = generateIdFromEntropySize(10);
+    const now = new Date("2024-01-01T00:00:00Z");
+
+    for (let i = 0; i < policy.maxAttempts; i++) {
+      // Past any delay from the previous attempt
+      setSystemTime(new Date(now.getTime() + i * 60_000));
+      expect(await rateLimiter.reserve([key])).toBeNull();
+    }
+
+    expect(await rateLimiter.reserve([key])).toBeTruthy();
+  });
+
+  test("release should take back a reserved attempt", async () => {
+    const key = generateIdFromEntropySize(10);
+
+    await rateLimiter.recordFailure([key]);
+    await rateLimiter.reserve([key]);
+    expect(await rateLimiter.check([key])).toBeTruthy();
+
+    await rateLimiter.release([key]);
+    expect(await rateLimiter.check([key])).toBeNull();
+  });
+
+  test("reset should clear the failures", async () => {
+    const key = generateIdFromEntropySize(10);
+
+    await rateLimiter.recordFailure([key]);
+    await rateLimiter.recordFailure([key]);
+    await rateLimiter.reset([key]);
+
+    expect(await rateLimiter.check([key])).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import { sha256 } from "oslo/crypto";
+import { base64url } from "oslo/encoding";
+
+import type {
+  PasskeyAuthenticationResponse,
+  PasskeyRegistrationResponse,
+} from "~/lib/types";
+
+// Fixed P-256 test key so failures are reproducible
+const testKey: JsonWebKey = {
+  kty: "EC",
+  crv: "P-256",
+  d: "gixT8k7c_uaxLQUEjnRR3He65UbT6LxDBEstLy6ZGKs",
+  x: "C4m_HSaNBIJmAANwCYR3N5o5T9p4QXux8ukG4qoot7o",
+  y: "KzQdpQKoo31nKjX0BLmMlJZKRaMpsDhZvU9ieKRr_fk",
+};
+
+// User present, and user verified unless turned off
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+
+// Plays the browser and a platform authenticator holding a single ES256 key.
+// Only the fields the server checks are produced: there's no attestation
+// statement and no CBOR.
+export class SoftwareAuthenticator {
+  public signCount = 0;
+  // Whether the authenticator reports having checked a PIN or biometric
+  public userVerified = true;
+
+  constructor(
+    public readonly origin: string,
+    public readonly credentialId = encode(
+      new TextEncoder().encode("software-authenticator")
+    )
+  ) {}
+
+  async register(challenge: string): Promise<PasskeyRegistrationResponse> {
+    const { publicKey } = await importTestKey();
+    const spki = await crypto.subtle.exportKey("spki", publicKey);
+
+    return {
+      credentialId: this.credentialId,
+      clientDataJSON: encode(this.clientDataJSON("webauthn.create", challenge)),
+      authenticatorData: encode(await this.authenticatorData()),
+      publicKey: encode(new Uint8Array(spki)),
+      algorithm: -7,
+    };
+  }
+
+  async authenticate(
+    challenge: string
+  ): Promise<PasskeyAuthenticationResponse> {
+    const { privateKey } = await importTestKey();
+
+    this.signCount++;
+    const clientDataJSON = this.clientDataJSON("webauthn.get", challenge);
+    const authenticatorData = await this.authenticatorData();
+    const clientDataHash = new Uint8Array(await sha256(clientDataJSON));
+
+    const signature = await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      privateKey,
+      new Uint8Array([...authenticatorData, ...clientDataHash])
+    );
+
+    return {
+      credentialId: this.credentialId,
+      clientDataJSON: encode(clientDataJSON),
+      authenticatorData: encode(authenticatorData),
+      signature: encode(toDERSignature(new Uint8Array(signature))),
+    };
+  }
+
+  private clientDataJSON(type: string, challenge: string): Uint8Array {
+    return new TextEncoder().encode(
+      JSON.stringify({ type, challenge, origin: this.origin })
+    );
+  }
+
+  private async authenticatorData(): Promise<Uint8Array> {
+    const rpIdHash = await sha256(
+      new TextEncoder().encode(new URL(this.origin).hostname)
+    );
+
+    const data = new Uint8Array(37);
+    data.set(new Uint8Array(rpIdHash), 0);
+    data[32] = USER_PRESENT | (this.userVerified ? USER_VERIFIED : 0);
+    new DataView(data.buffer).setUint32(33, this.signCount);
+    return data;
+  }
+}
+
+async function importTestKey() {
+  const { d: _, ...publicJwk } = testKey;
+  const algorithm = { name: "ECDSA", namedCurve: "P-256" };
+
+  return {
+    privateKey: await crypto.subtle.importKey("jwk", testKey, algorithm, true, [
+      "sign",
+    ]),
+    publicKey: await crypto.subtle.importKey(
+      "jwk",
+      publicJwk,
+      algorithm,
+      true,
+      ["verify"]
+    ),
+  };
+}
+
+// WebCrypto returns r || s, authenticators return an ASN.1 DER sequence
+function toDERSignature(signature: Uint8Array): Uint8Array {
+  const r = toDERInteger(signature.slice(0, 32));
+  const s = toDERInteger(signature.slice(32));
+
+  return new Uint8Array([
+    0x30,
+    r.length + s.length + 4,
+    0x02,
+    r.length,
+    ...r,
+    0x02,
+    s.length,
+    ...s,
+  ]);
+}
+
+function toDERInteger(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start++;
+  }
+
+  const trimmed = bytes.slice(start);
+  // A set high bit would make the integer negative
+  return trimmed[0] & 0x80 ? new Uint8Array([0, ...trimmed]) : trimmed;
+}
+
+function encode(bytes: Uint8Array): string {
+  return base64url.encode(bytes, { includePadding: false });
+}
@@ -1,9 +1,53 @@
 import { vitePlugin as remix } from "@remix-run/dev";
-import { defineConfig } from "vite";
+import { createRequestHandler, type ServerBuild } from "@remix-run/node";
+import { type Plugin, defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 
+// Not part of the public API, but it's what Remix's own dev proxy plugins use
+import {
+  fromNodeRequest,
+  toNodeRequest,
+} from "@remix-run/dev/dist/vite/node-adapter";
+
+import { ServiceContainer } from "./app/services/service-container";
+import { getLoadContext } from "./load-context";
+
+// Serves Remix requests in dev with the same load context as `server.ts`.
+// Must be placed before the Remix plugin so its middleware runs first.
+function remixLoadContext(): Plugin {
+  return {
+    name: "remix-load-context",
+    apply: "serve",
+    configureServer(viteDevServer) {
+      const services = new ServiceContainer(undefined, { devMailbox: true });
+      viteDevServer.httpServer?.on("close", () => {
+        services[Symbol.dispose]();
+      });
+
+      return () => {
+        viteDevServer.middlewares.use(async (nodeReq, nodeRes, next) => {
+          try {
+            const build = (await viteDevServer.ssrLoadModule(
+              "virtual:remix/server-build"
+            )) as ServerBuild;
+            const handler = createRequestHandler(build, "development");
+            const response = await handler(
+              fromNodeRequest(nodeReq),
+              getLoadContext(services, nodeReq.socket.remoteAddress ?? null)
+            );
+            await toNodeRequest(response, nodeRes);
+          } catch (error) {
+            next(error);
+          }
+        });
+      };
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
+    remixLoadContext(),
     remix({
       future: {
         unstable_singleFetch: true,